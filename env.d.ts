@@ -0,0 +1,21 @@
+/**
+ * The Firemyna compile-time constants. Reference the file to make them
+ * available in the functions code:
+ *
+ * ```ts
+ * /// <reference types="firemyna/env" />
+ * ```
+ */
+
+/** The app environment the functions are built for */
+declare const FIREMYNA_APP_ENV:
+  | "development"
+  | "test"
+  | "staging"
+  | "production";
+
+/** The build mode: build for deployment or dev for the development server */
+declare const FIREMYNA_MODE: "build" | "dev";
+
+/** The Firebase project alias or ID passed to the command, if any */
+declare const FIREMYNA_PROJECT: string | undefined;
@@ -0,0 +1,12 @@
+import { writeFile } from "fs/promises";
+import { format } from "prettier";
+import { configSchema } from "../src/config/schema";
+
+format(
+  JSON.stringify({
+    $schema: "http://json-schema.org/draft-07/schema#",
+    title: "Firemyna config",
+    ...configSchema,
+  }),
+  { parser: "json" }
+).then((source) => writeFile("schema.json", source));
@@ -0,0 +1,419 @@
+/**
+ * @module analyze
+ *
+ * The Firemyna bundle analysis module. It reports the functions bundles
+ * composition and checks the size budgets.
+ */
+
+import { Metafile } from "esbuild";
+import { mkdir, writeFile } from "fs/promises";
+import { relative, resolve } from "path";
+import { FiremynaBuildConfig } from "../build";
+import {
+  FiremynaFunction,
+  FiremynaFunctionsBuild,
+  functionDeployName,
+  functionId,
+  functionPatternMatches,
+  outputFile,
+} from "../functions";
+
+/**
+ * The functions build analysis.
+ */
+export interface FiremynaBuildAnalysis {
+  /** The functions bundles reports */
+  functions: FiremynaBundleReport[];
+  /** The packages bundled into multiple output files */
+  duplicatedPackages: FiremynaDuplicatedPackage[];
+}
+
+/**
+ * The function bundle report.
+ */
+export interface FiremynaBundleReport {
+  /** The function id (i.e. `billing.charge`) */
+  id: string;
+  /** The output file relative to the functions build directory */
+  file: string;
+  /** The bundle size in bytes including the shared chunks */
+  bytes: number;
+  /** The bundled inputs sorted by size */
+  inputs: FiremynaBundleEntry[];
+  /** The bundled packages sorted by size */
+  packages: FiremynaBundleEntry[];
+  /** The external imports */
+  externals: string[];
+}
+
+/**
+ * The bundle input or package.
+ */
+export interface FiremynaBundleEntry {
+  /** The input path relative to the working directory or the package name */
+  name: string;
+  /** The size in the bundle in bytes */
+  bytes: number;
+}
+
+/**
+ * The package bundled into multiple output files.
+ */
+export interface FiremynaDuplicatedPackage {
+  /** The package name */
+  name: string;
+  /** The output files relative to the functions build directory */
+  files: string[];
+}
+
+/**
+ * Analyzes the functions build using the esbuild metafiles.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @param functions - the built functions
+ * @param build - the functions build result
+ * @returns the build analysis
+ */
+export function analyzeFunctionsBuild(
+  buildConfig: FiremynaBuildConfig,
+  functions: FiremynaFunction[],
+  build: FiremynaFunctionsBuild
+): FiremynaBuildAnalysis {
+  const buildPath = resolve(buildConfig.cwd, buildConfig.paths.functions.build);
+  const metafile = mergeMetafiles(build);
+
+  // The metafile paths are relative to the esbuild working directory
+  const outputs = new Map(
+    Object.entries(metafile.outputs).map(([path, output]) => [
+      resolve(path),
+      output,
+    ])
+  );
+  const fileBytes = new Map(
+    Object.values(build).flatMap(
+      (result) =>
+        result.outputFiles?.map(
+          (file) => [file.path, file.contents.byteLength] as const
+        ) || []
+    )
+  );
+
+  const packageFiles = new Map<string, Set<string>>();
+
+  const reports = functions.flatMap((fn) => {
+    const file = outputFile(buildConfig, functionDeployName(fn));
+    const entryPath = resolve(buildPath, file);
+    if (!outputs.has(entryPath)) return [];
+
+    const paths = bundleOutputPaths(entryPath, outputs);
+    const inputs = new Map<string, number>();
+    const packages = new Map<string, number>();
+    const externals = new Set<string>();
+
+    paths.forEach((path) => {
+      const output = outputs.get(path)!;
+
+      Object.entries(output.inputs).forEach(([input, { bytesInOutput }]) => {
+        const name = relative(buildConfig.cwd, resolve(input));
+        inputs.set(name, (inputs.get(name) || 0) + bytesInOutput);
+
+        const pkg = packageName(input);
+        if (!pkg) return;
+        packages.set(pkg, (packages.get(pkg) || 0) + bytesInOutput);
+
+        const files = packageFiles.get(pkg) || new Set();
+        files.add(relative(buildPath, path));
+        packageFiles.set(pkg, files);
+      });
+
+      output.imports.forEach((imp) => imp.external && externals.add(imp.path));
+    });
+
+    const report: FiremynaBundleReport = {
+      id: functionId(fn),
+      file,
+      bytes: paths.reduce(
+        (acc, path) => acc + (fileBytes.get(path) ?? outputs.get(path)!.bytes),
+        0
+      ),
+      inputs: sortEntries(inputs),
+      packages: sortEntries(packages),
+      externals: Array.from(externals).sort(),
+    };
+    return [report];
+  });
+
+  return {
+    functions: reports,
+    duplicatedPackages: Array.from(packageFiles)
+      .filter(([, files]) => files.size > 1)
+      .map(([name, files]) => ({ name, files: Array.from(files).sort() })),
+  };
+}
+
+/**
+ * Checks the functions bundles against the configured budgets.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @param analysis - the build analysis
+ * @returns the budget violations messages
+ */
+export function checkBudgets(
+  buildConfig: FiremynaBuildConfig,
+  analysis: FiremynaBuildAnalysis
+): string[] {
+  const budgets = Object.entries(buildConfig.config.functions?.budgets || {});
+
+  return analysis.functions.flatMap((report) =>
+    budgets.flatMap(([pattern, budget]) => {
+      if (!functionPatternMatches(pattern, report.id)) return [];
+      const limit = parseSize(budget);
+      return report.bytes > limit
+        ? [
+            `The function ${report.id} bundle is ${formatBytes(
+              report.bytes
+            )}, exceeding the ${pattern} budget of ${formatBytes(limit)}`,
+          ]
+        : [];
+    })
+  );
+}
+
+/**
+ * Generates the human-readable build analysis report.
+ *
+ * @param analysis - the build analysis
+ * @param limit - the number of the biggest inputs to list
+ * @returns the report
+ */
+export function stringifyBuildAnalysis(
+  analysis: FiremynaBuildAnalysis,
+  limit = 5
+): string {
+  const lines = analysis.functions
+    .slice()
+    .sort((a, b) => b.bytes - a.bytes)
+    .flatMap((report) =>
+      [`${report.id} (${report.file}): ${formatBytes(report.bytes)}`]
+        .concat(
+          report.inputs
+            .slice(0, limit)
+            .map((input) => `  ${input.name}: ${formatBytes(input.bytes)}`)
+        )
+        .concat(
+          report.packages.length
+            ? [
+                `  Packages: ${report.packages
+                  .map((pkg) => `${pkg.name} (${formatBytes(pkg.bytes)})`)
+                  .join(", ")}`,
+              ]
+            : []
+        )
+        .concat(
+          report.externals.length
+            ? [`  Externals: ${report.externals.join(", ")}`]
+            : []
+        )
+    );
+
+  return lines
+    .concat(
+      analysis.duplicatedPackages.map(
+        (pkg) => `Duplicated package ${pkg.name}: ${pkg.files.join(", ")}`
+      )
+    )
+    .join("\n");
+}
+
+/**
+ * Writes the merged metafile and the HTML treemap into the build directory.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @param build - the functions build result
+ * @param analysis - the build analysis
+ * @returns promise to the written files paths relative to the working
+ * directory
+ */
+export async function writeBuildAnalysis(
+  buildConfig: FiremynaBuildConfig,
+  build: FiremynaFunctionsBuild,
+  analysis: FiremynaBuildAnalysis
+): Promise<string[]> {
+  const dir = resolve(buildConfig.cwd, buildConfig.paths.appEnvBuild);
+  const metafilePath = resolve(dir, "metafile.json");
+  const treemapPath = resolve(dir, "analyze.html");
+
+  await mkdir(dir, { recursive: true });
+  await Promise.all([
+    writeFile(metafilePath, JSON.stringify(mergeMetafiles(build), null, 2)),
+    writeFile(treemapPath, stringifyTreemap(analysis)),
+  ]);
+
+  return [metafilePath, treemapPath].map((path) =>
+    relative(buildConfig.cwd, path)
+  );
+}
+
+/**
+ * Parses the budget size.
+ *
+ * @param size - the size in bytes or a string like `200KB` or `1.5MB`
+ * @returns the size in bytes
+ */
+export function parseSize(size: number | string): number {
+  if (typeof size === "number") return size;
+
+  const captures = size.trim().match(/^(\d+(?:\.\d+)?)\s*(B|KB|MB)?$/i);
+  if (!captures)
+    throw new Error(
+      `The budget ${size} is invalid, use bytes or a size like 200KB or 1.5MB`
+    );
+
+  const unit = captures[2]?.toUpperCase();
+  const multiplier = unit === "MB" ? 1024 * 1024 : unit === "KB" ? 1024 : 1;
+  return Math.round(parseFloat(captures[1]!) * multiplier);
+}
+
+/**
+ * Formats the bytes to the human-readable size.
+ *
+ * @param bytes - the size in bytes
+ * @returns the formatted size
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
+
+/**
+ * Merges the metafiles of the build results. The split build results share
+ * the same metafile.
+ *
+ * @param build - the functions build result
+ * @returns the merged metafile
+ */
+function mergeMetafiles(build: FiremynaFunctionsBuild): Metafile {
+  const metafiles = new Set(
+    Object.values(build).flatMap((result) => result.metafile || [])
+  );
+  return Array.from(metafiles).reduce<Metafile>(
+    (acc, metafile) => ({
+      inputs: { ...acc.inputs, ...metafile.inputs },
+      outputs: { ...acc.outputs, ...metafile.outputs },
+    }),
+    { inputs: {}, outputs: {} }
+  );
+}
+
+/**
+ * Lists the output file and the chunks it imports.
+ *
+ * @param entryPath - the function output file path
+ * @param outputs - the metafile outputs by the absolute path
+ * @returns the bundle output paths
+ */
+function bundleOutputPaths(
+  entryPath: string,
+  outputs: Map<string, Metafile["outputs"][string]>
+): string[] {
+  const paths = new Set<string>();
+  const visit = (path: string) => {
+    if (paths.has(path) || !outputs.has(path)) return;
+    paths.add(path);
+    outputs
+      .get(path)!
+      .imports.forEach((imp) => !imp.external && visit(resolve(imp.path)));
+  };
+  visit(entryPath);
+  return Array.from(paths);
+}
+
+/**
+ * Extracts the package name from the input path.
+ *
+ * @param input - the input path
+ * @returns the package name if the input is in node_modules
+ */
+function packageName(input: string): string | undefined {
+  const captures = input.match(/.*node_modules\/((?:@[^/]+\/)?[^/]+)/);
+  return captures?.[1];
+}
+
+/**
+ * Converts the sizes map to the entries sorted by size.
+ *
+ * @param sizes - the sizes map
+ * @returns the sorted entries
+ */
+function sortEntries(sizes: Map<string, number>): FiremynaBundleEntry[] {
+  return Array.from(sizes)
+    .map(([name, bytes]) => ({ name, bytes }))
+    .sort((a, b) => b.bytes - a.bytes);
+}
+
+/**
+ * Generates the self-contained HTML treemap of the functions bundles.
+ *
+ * @param analysis - the build analysis
+ * @returns the HTML source code
+ */
+function stringifyTreemap(analysis: FiremynaBuildAnalysis): string {
+  const data = analysis.functions.map((report) => ({
+    name: `${report.id} (${formatBytes(report.bytes)})`,
+    bytes: report.bytes,
+    children: report.inputs.map((input) => ({
+      name: `${input.name} (${formatBytes(input.bytes)})`,
+      bytes: input.bytes,
+    })),
+  }));
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Firemyna bundle analysis</title>
+<style>
+  body { margin: 0; font: 12px sans-serif; }
+  #treemap { position: relative; width: 100vw; height: 100vh; }
+  .node { position: absolute; box-sizing: border-box; overflow: hidden; border: 1px solid #fff; padding: 2px; color: #fff; }
+</style>
+</head>
+<body>
+<div id="treemap"></div>
+<script>
+const data = ${JSON.stringify(data)};
+
+function layout(nodes, x, y, width, height, depth, parent) {
+  const total = nodes.reduce((acc, node) => acc + node.bytes, 0) || 1;
+  let offset = 0;
+  nodes.forEach((node) => {
+    const ratio = node.bytes / total;
+    const horizontal = width >= height;
+    const rect = horizontal
+      ? [x + offset * width, y, ratio * width, height]
+      : [x, y + offset * height, width, ratio * height];
+    offset += ratio;
+
+    const el = document.createElement("div");
+    el.className = "node";
+    el.title = node.name;
+    el.textContent = node.name;
+    el.style.left = rect[0] + "px";
+    el.style.top = rect[1] + "px";
+    el.style.width = rect[2] + "px";
+    el.style.height = rect[3] + "px";
+    el.style.background = "hsl(" + ((depth * 137 + offset * 360) % 360) + ", 50%, " + (35 + depth * 10) + "%)";
+    parent.appendChild(el);
+
+    if (node.children) layout(node.children, rect[0], rect[1] + 16, rect[2], rect[3] - 16, depth + 1, parent);
+  });
+}
+
+const root = document.getElementById("treemap");
+layout(data, 0, 0, root.clientWidth, root.clientHeight, 0, root);
+</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,185 @@
+import { BuildResult } from "esbuild";
+import { resolve } from "path";
+import {
+  analyzeFunctionsBuild,
+  checkBudgets,
+  parseSize,
+  stringifyBuildAnalysis,
+} from ".";
+import { FiremynaBuildConfig } from "../build";
+import { describe, it, expect } from "vitest";
+
+describe("analyze", () => {
+  const cwd = resolve("app");
+
+  const buildConfig: FiremynaBuildConfig = {
+    project: "production",
+    cwd,
+    appEnv: "production",
+    mode: "build",
+    paths: {
+      cwd,
+      appEnvBuild: "build",
+      functions: {
+        src: "functions",
+        build: "build/functions",
+      },
+      hosting: {
+        build: "build/hosting",
+      },
+    },
+    config: { node: "20", format: "ts" },
+    renderer: false,
+  };
+
+  const functions = [
+    { name: "a", path: "functions/a.ts" },
+    { name: "charge", path: "functions/billing/charge.ts", group: ["billing"] },
+  ];
+
+  const buildResult = (
+    file: string,
+    bytes: number,
+    inputs: Record<string, number>,
+    imports: string[] = []
+  ): BuildResult => ({
+    errors: [],
+    warnings: [],
+    mangleCache: undefined,
+    outputFiles: [
+      {
+        path: resolve(cwd, "build/functions", file),
+        contents: new Uint8Array(bytes),
+        text: "",
+      },
+    ],
+    metafile: {
+      inputs: {},
+      outputs: {
+        [`app/build/functions/${file}`]: {
+          bytes,
+          inputs: Object.fromEntries(
+            Object.entries(inputs).map(([input, bytesInOutput]) => [
+              input,
+              { bytesInOutput },
+            ])
+          ),
+          imports: imports.map((path) => ({
+            path,
+            kind: "require-call",
+            external: true,
+          })),
+          exports: [],
+        },
+      },
+    },
+  });
+
+  const build = {
+    "a.cjs": buildResult(
+      "a.cjs",
+      3000,
+      {
+        "app/functions/a.ts": 500,
+        "app/node_modules/zod/lib/index.js": 2000,
+      },
+      ["firebase-functions"]
+    ),
+    "billing-charge.cjs": buildResult("billing-charge.cjs", 5000, {
+      "app/functions/billing/charge.ts": 1000,
+      "app/node_modules/zod/lib/index.js": 2000,
+      "app/node_modules/@stripe/stripe-js/dist/index.js": 1500,
+    }),
+  };
+
+  describe("analyzeFunctionsBuild", () => {
+    it("reports the functions bundles composition", () => {
+      const analysis = analyzeFunctionsBuild(buildConfig, functions, build);
+
+      expect(analysis.functions).toEqual([
+        {
+          id: "a",
+          file: "a.cjs",
+          bytes: 3000,
+          inputs: [
+            { name: "node_modules/zod/lib/index.js", bytes: 2000 },
+            { name: "functions/a.ts", bytes: 500 },
+          ],
+          packages: [{ name: "zod", bytes: 2000 }],
+          externals: ["firebase-functions"],
+        },
+        {
+          id: "billing.charge",
+          file: "billing-charge.cjs",
+          bytes: 5000,
+          inputs: [
+            { name: "node_modules/zod/lib/index.js", bytes: 2000 },
+            {
+              name: "node_modules/@stripe/stripe-js/dist/index.js",
+              bytes: 1500,
+            },
+            { name: "functions/billing/charge.ts", bytes: 1000 },
+          ],
+          packages: [
+            { name: "zod", bytes: 2000 },
+            { name: "@stripe/stripe-js", bytes: 1500 },
+          ],
+          externals: [],
+        },
+      ]);
+
+      expect(analysis.duplicatedPackages).toEqual([
+        { name: "zod", files: ["a.cjs", "billing-charge.cjs"] },
+      ]);
+    });
+
+    it("stringifies the report", () => {
+      const analysis = analyzeFunctionsBuild(buildConfig, functions, build);
+      expect(stringifyBuildAnalysis(analysis, 1)).toBe(
+        `billing.charge (billing-charge.cjs): 4.9 KB
+  node_modules/zod/lib/index.js: 2.0 KB
+  Packages: zod (2.0 KB), @stripe/stripe-js (1.5 KB)
+a (a.cjs): 2.9 KB
+  node_modules/zod/lib/index.js: 2.0 KB
+  Packages: zod (2.0 KB)
+  Externals: firebase-functions
+Duplicated package zod: a.cjs, billing-charge.cjs`
+      );
+    });
+  });
+
+  describe("checkBudgets", () => {
+    it("reports the functions exceeding the budgets", () => {
+      const analysis = analyzeFunctionsBuild(buildConfig, functions, build);
+      expect(
+        checkBudgets(
+          {
+            ...buildConfig,
+            config: {
+              ...buildConfig.config,
+              functions: { budgets: { "billing.*": "4KB", "**": 10000 } },
+            },
+          },
+          analysis
+        )
+      ).toEqual([
+        "The function billing.charge bundle is 4.9 KB, exceeding the billing.* budget of 4.0 KB",
+      ]);
+    });
+  });
+
+  describe("parseSize", () => {
+    it("parses the sizes", () => {
+      expect(parseSize(100)).toBe(100);
+      expect(parseSize("100")).toBe(100);
+      expect(parseSize("200KB")).toBe(204800);
+      expect(parseSize("1.5 mb")).toBe(1572864);
+    });
+
+    it("throws on invalid sizes", () => {
+      expect(() => parseSize("big")).toThrow(
+        "The budget big is invalid, use bytes or a size like 200KB or 1.5MB"
+      );
+    });
+  });
+});
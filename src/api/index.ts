@@ -0,0 +1,183 @@
+/**
+ * @module api
+ *
+ * The Firemyna programmatic API. It allows embedding Firemyna into custom
+ * tooling and tests. The CLI commands are built on top of it.
+ */
+
+import { resolve } from "path";
+import {
+  FiremynaBuildConfig,
+  FiremynaBuildMode,
+  getBuildConfig,
+} from "../build";
+import { FiremynaBuildResult, runBuild, RunBuildOptions } from "../build/run";
+import { configWithDefaults, loadConfig } from "../config";
+import { configIssuesError, validateConfigFiles } from "../config/validate";
+import { runDeploy } from "../deploy";
+import {
+  FiremynaDevServer,
+  startDevServer,
+  StartDevServerOptions,
+} from "../dev";
+import {
+  FiremynaFunction,
+  listFunctions as listBuildFunctions,
+} from "../functions";
+import { presetProjectPaths } from "../presets/paths";
+import { resolveStackTrace } from "../stacktrace";
+import { findWorkspace } from "../workspace";
+
+/**
+ * The common API options.
+ */
+export interface FiremynaAPIOptions {
+  /** The working directory; defaults to `process.cwd()` */
+  cwd?: string;
+  /** The path to the Firemyna config; defaults to `firemyna.config.ts` or `.js` */
+  configPath?: string;
+  /** The Firebase project alias or ID */
+  project?: string;
+}
+
+/**
+ * The {@link build} function options.
+ */
+export interface FiremynaBuildOptions
+  extends FiremynaAPIOptions,
+    RunBuildOptions {}
+
+/**
+ * The {@link dev} function options.
+ */
+export interface FiremynaDevOptions
+  extends FiremynaAPIOptions,
+    StartDevServerOptions {}
+
+/**
+ * The {@link deploy} function options.
+ */
+export interface FiremynaDeployOptions extends FiremynaBuildOptions {
+  /** The Firebase token to use */
+  token?: string;
+}
+
+/**
+ * The deploy result.
+ */
+export interface FiremynaDeployResult {
+  /** The build result */
+  build: FiremynaBuildResult;
+  /** The Firebase CLI exit code */
+  exitCode: number | null;
+}
+
+/**
+ * Builds the Firemyna project for deployment.
+ *
+ * @param options - the build options
+ * @returns promise to the build result
+ */
+export async function build(
+  options: FiremynaBuildOptions = {}
+): Promise<FiremynaBuildResult> {
+  const buildConfig = await resolveBuildConfig("build", options);
+  return runBuild(buildConfig, options);
+}
+
+/**
+ * Builds and deploys the Firemyna project.
+ *
+ * @param options - the deploy options
+ * @returns promise to the deploy result
+ */
+export async function deploy(
+  options: FiremynaDeployOptions = {}
+): Promise<FiremynaDeployResult> {
+  const buildResult = await build(options);
+  const exitCode = await runDeploy(buildResult.buildConfig, options);
+  return { build: buildResult, exitCode };
+}
+
+/**
+ * Starts the Firemyna development server.
+ *
+ * @param options - the dev options
+ * @returns promise to the running server, resolved after the initial build
+ */
+export async function dev(
+  options: FiremynaDevOptions = {}
+): Promise<FiremynaDevServer> {
+  const buildConfig = await resolveBuildConfig("dev", options);
+  return startDevServer(buildConfig, options);
+}
+
+/**
+ * Lists the Firemyna project functions.
+ *
+ * @param options - the API options
+ * @returns promise to the functions list
+ */
+export async function listFunctions(
+  options: FiremynaAPIOptions = {}
+): Promise<FiremynaFunction[]> {
+  const buildConfig = await resolveBuildConfig("build", options);
+  return listBuildFunctions(buildConfig);
+}
+
+/**
+ * Maps the production stack trace to the sources using the source maps of
+ * the last build.
+ *
+ * @param trace - the stack trace to map
+ * @param options - the API options
+ * @returns promise to the mapped stack trace
+ */
+export async function stacktrace(
+  trace: string,
+  options: FiremynaAPIOptions = {}
+): Promise<string> {
+  const buildConfig = await resolveBuildConfig("build", options);
+  return resolveStackTrace(buildConfig, trace);
+}
+
+/**
+ * Loads and validates the config and generates the build config for the mode.
+ *
+ * @param mode - the build mode
+ * @param options - the API options
+ * @returns promise to the build config
+ */
+export async function resolveBuildConfig(
+  mode: FiremynaBuildMode,
+  { cwd: cwdOption, configPath, project }: FiremynaAPIOptions
+): Promise<FiremynaBuildConfig> {
+  const cwd = resolve(cwdOption || process.cwd());
+  const appEnv = mode === "build" ? "production" : "development";
+
+  const loadedConfig = await loadConfig(cwd, configPath, {
+    mode,
+    appEnv,
+    project,
+  });
+  if (!loadedConfig) throw new Error("Can not find the Firemyna config file");
+  const config = configWithDefaults(loadedConfig.config);
+
+  const buildConfig = getBuildConfig({
+    mode,
+    project,
+    appEnv,
+    cwd,
+    config,
+    projectPaths: presetProjectPaths(config.preset, config.functionsPath),
+    renderer:
+      mode === "build" &&
+      (config.preset === "remix" || config.preset === "next"),
+    workspace: await findWorkspace(cwd),
+  });
+
+  const issues = await validateConfigFiles(buildConfig);
+  if (issues.length) throw configIssuesError(loadedConfig.path, issues);
+
+  return buildConfig;
+}
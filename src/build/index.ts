@@ -1,6 +1,7 @@
 import { FiremynaAppEnv } from "../app";
 import { FiremynaConfigResolved } from "../config";
 import { FiremynaPaths, FiremynaProjectPaths, getPaths } from "../paths";
+import { FiremynaWorkspace } from "../workspace";
 
 /**
  * The build mode:
@@ -27,6 +28,8 @@ export interface FiremynaBuildConfig {
   config: FiremynaConfigResolved;
   /** Should Firemyna generate renderer function? */
   renderer: boolean;
+  /** The workspace the project belongs to */
+  workspace?: FiremynaWorkspace;
 }
 
 /**
@@ -47,6 +50,8 @@ export interface GetBuildConfigProps {
   config: FiremynaConfigResolved;
   /** Should Firemyna generate renderer function? */
   renderer: boolean;
+  /** The workspace the project belongs to */
+  workspace?: FiremynaWorkspace;
 }
 
 /**
@@ -61,6 +66,7 @@ export function getBuildConfig({
   projectPaths,
   config,
   renderer,
+  workspace,
 }: GetBuildConfigProps): FiremynaBuildConfig {
   return {
     mode,
@@ -68,7 +74,15 @@ export function getBuildConfig({
     appEnv,
     cwd,
     config,
-    paths: getPaths({ appEnv, cwd, projectPaths }),
+    paths: getPaths({
+      appEnv,
+      cwd,
+      projectPaths,
+      hostingTargets: Array.isArray(config.hosting)
+        ? config.hosting.map((site) => site.target)
+        : undefined,
+    }),
     renderer,
+    workspace,
   };
 }
@@ -1,10 +1,25 @@
 import { copyFile, mkdir, readFile, rm, writeFile } from "fs/promises";
 import { resolve } from "path";
 import { FiremynaBuildConfig } from "..";
+import { outputFile, outputFormat } from "../../functions";
 import { getFunctionsBuildPath } from "../../paths";
 import { FiremynaPkg } from "../../pkg";
 import { presetCommand } from "../../presets";
 import { FiremynaConfigResolved } from "../../config";
+import {
+  detectPackageManager,
+  FiremynaPackageManagerInfo,
+  writeLockfile,
+} from "../../lockfile";
+import {
+  firebasercWithTargets,
+  FiremynaFirebaseJSONHosting,
+  FiremynaFirebaserc,
+  hostingJSON,
+  hostingSites,
+} from "../../hosting";
+import { resolveWorkspaceDependencies } from "../../workspace";
+import { firestoreIndexesName, writeFirestoreIndexes } from "../../firestore";
 
 /**
  * Generates Firebase build structure.
@@ -12,13 +27,17 @@ import { FiremynaConfigResolved } from "../../config";
 export interface FiremynaBuildStruct {
   /** The parsed package.json */
   pkg: FiremynaPkg;
+  /** The detected package manager */
+  packageManager: FiremynaPackageManagerInfo;
 }
 
 /**
  * Prepares the build structure.
  * @returns promise to the operation complete
  */
-export async function prepareBuild(buildConfig: FiremynaBuildConfig) {
+export async function prepareBuild(
+  buildConfig: FiremynaBuildConfig
+): Promise<FiremynaBuildStruct> {
   const { mode, cwd, config, paths } = buildConfig;
 
   // Recreate the build directory
@@ -47,38 +66,68 @@ export async function prepareBuild(buildConfig: FiremynaBuildConfig) {
     });
   }
 
+  async function copyFirebaserc(name: string) {
+    if (!hostingSites(config)) return copyToBuild(name);
+
+    const firebaserc: FiremynaFirebaserc = JSON.parse(
+      await readFile(resolve(cwd, name), "utf8")
+    );
+    await writeFile(
+      resolve(cwd, paths.appEnvBuild, name),
+      JSON.stringify(firebasercWithTargets(config, firebaserc), null, 2)
+    );
+  }
+
   const pkg: FiremynaPkg = JSON.parse(
     await readFile(resolve(cwd, "package.json"), "utf8")
   );
 
   Object.assign(pkg, {
     // TODO: Get from paths
-    main: "functions/index.cjs",
+    main: `functions/${outputFile(buildConfig, "index")}`,
     engines: { node: config.node },
   });
 
+  // The workspace packages are bundled, so install their dependencies instead
+  if (buildConfig.workspace) {
+    const { dependencies, devDependencies } = resolveWorkspaceDependencies(
+      pkg,
+      buildConfig.workspace
+    );
+    pkg.dependencies = dependencies;
+    pkg.devDependencies = devDependencies;
+  }
+
+  const esm = outputFormat(buildConfig) === "esm";
+  if (esm) pkg.type = "module";
+
   // Remove scripts, to stop Functions run random commands. At some point they
   // started to run `npm run build` during deployment which messed it up.
   delete pkg.scripts;
 
   config.preset && presetCommand(config.preset, "prepare-package-json")?.(pkg);
 
-  await Promise.all<any>([
-    // Generate package.json
-    writeFile(
-      resolve(cwd, paths.appEnvBuild, "package.json"),
-      JSON.stringify(pkg, null, 2)
-    ),
+  const packageManager = await detectPackageManager(buildConfig, pkg);
 
-    // Copy the lock file
-    // TODO: Add support for Yarn and pnpm
-    copyToBuild("package-lock.json", { ignore: true }),
+  await Promise.all<any>([
+    // Generate package.json and the lockfile pruned to it
+    writeBuildPkg(buildConfig, packageManager, pkg),
+
+    // Keep the Remix and Next.js server builds .js files CommonJS
+    esm &&
+      buildConfig.renderer &&
+      writeFile(
+        resolve(cwd, getFunctionsBuildPath(paths.appEnvBuild), "package.json"),
+        JSON.stringify({ type: "commonjs" }, null, 2)
+      ),
 
-    // Copy the Firebase projects config
+    // Copy the Firebase projects config with the Hosting targets
     mode === "dev"
       ? // In dev mode, try .firebaserc.local first
-        copyToBuild(".firebaserc.local").catch(() => copyToBuild(".firebaserc"))
-      : copyToBuild(".firebaserc"),
+        copyFirebaserc(".firebaserc.local").catch(() =>
+          copyFirebaserc(".firebaserc")
+        )
+      : copyFirebaserc(".firebaserc"),
 
     // Generate firebase.json
     writeFile(
@@ -97,6 +146,9 @@ export async function prepareBuild(buildConfig: FiremynaBuildConfig) {
         { ignore: mode === "dev" } // Firestore emulator works without rules
       ),
 
+    // Copy or compile the Firestore indexes
+    config.firestore && writeFirestoreIndexes(buildConfig),
+
     // Copy the Functions runtime config
     mode === "dev" &&
       config.functionsRuntimeConfigPath &&
@@ -122,14 +174,32 @@ export async function prepareBuild(buildConfig: FiremynaBuildConfig) {
     mode === "dev" && copyToBuild(".secret.local", { ignore: true }),
   ]);
 
-  return { pkg };
+  return { pkg, packageManager };
+}
+
+/**
+ * Writes the package.json and the lockfile pruned to it into the build
+ * directory.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @param packageManager - the detected package manager
+ * @param pkg - the package.json to write
+ * @returns promise to the operation complete
+ */
+export async function writeBuildPkg(
+  buildConfig: FiremynaBuildConfig,
+  packageManager: FiremynaPackageManagerInfo,
+  pkg: FiremynaPkg
+) {
+  await writeFile(
+    resolve(buildConfig.cwd, buildConfig.paths.appEnvBuild, "package.json"),
+    JSON.stringify(pkg, null, 2)
+  );
+  await writeLockfile(buildConfig, packageManager, pkg);
 }
 
 export interface FiremynaFirebaseJSON {
-  hosting?: {
-    public: string;
-    rewrites?: Array<{ source: string; function: string }>;
-  };
+  hosting?: FiremynaFirebaseJSONHosting | FiremynaFirebaseJSONHosting[];
   functions: {
     source: string;
   };
@@ -140,6 +210,7 @@ export interface FiremynaFirebaseJSON {
 
   firestore?: {
     rules: string;
+    indexes?: string;
   };
 
   emulators?: {
@@ -202,7 +273,7 @@ export interface FiremynaFirebaseJSON {
  * @returns Firebase JSON file
  */
 function firebaseJSON(buildConfig: FiremynaBuildConfig): FiremynaFirebaseJSON {
-  const { mode, config, renderer } = buildConfig;
+  const { mode, config } = buildConfig;
 
   const json: FiremynaFirebaseJSON = {
     functions: {
@@ -210,21 +281,8 @@ function firebaseJSON(buildConfig: FiremynaBuildConfig): FiremynaFirebaseJSON {
     },
   };
 
-  if (renderer || config.hosting) {
-    json.hosting = {
-      // TODO: Get this from paths
-      public: "hosting",
-    };
-
-    if (renderer) {
-      json.hosting.rewrites = [
-        {
-          source: "/**",
-          function: "renderer",
-        },
-      ];
-    }
-  }
+  const hosting = hostingJSON(buildConfig);
+  if (hosting) json.hosting = hosting;
 
   if (config.emulators) {
     json.emulators = {
@@ -315,19 +373,34 @@ function firebaseJSON(buildConfig: FiremynaBuildConfig): FiremynaFirebaseJSON {
     json.firestore = {
       rules: firestoreRulesPath(config),
     };
+
+    if (typeof config.firestore === "object" && config.firestore.indexesPath)
+      json.firestore.indexes = firestoreIndexesName;
   }
 
   return json;
 }
 
-function firestoreRulesPath(config: FiremynaConfigResolved) {
+/**
+ * Returns the Firestore security rules path.
+ *
+ * @param config - the Firemyna config
+ * @returns the Firestore security rules path
+ */
+export function firestoreRulesPath(config: FiremynaConfigResolved) {
   return (
     (typeof config.firestore === "object" && config.firestore.rulesPath) ||
     "firestore.rules"
   );
 }
 
-function storageRulesPath(config: FiremynaConfigResolved) {
+/**
+ * Returns the Storage security rules path.
+ *
+ * @param config - the Firemyna config
+ * @returns the Storage security rules path
+ */
+export function storageRulesPath(config: FiremynaConfigResolved) {
   return (
     (typeof config.storage === "object" && config.storage.rulesPath) ||
     "storage.rules"
@@ -0,0 +1,291 @@
+import cp from "child_process";
+import { BuildResult } from "esbuild";
+import { difference, remove } from "js-fns";
+import { relative, resolve } from "path";
+import { promisify } from "util";
+import { FiremynaBuildConfig } from "..";
+import {
+  analyzeFunctionsBuild,
+  checkBudgets,
+  FiremynaBuildAnalysis,
+  writeBuildAnalysis,
+} from "../../analyze";
+import { nodeDeprecationWarning } from "../../config/node";
+import {
+  checkDependencies,
+  generateMinimalPkg,
+  listPkgDependencies,
+  parseBuildDependencies,
+  parseMetafileDependencies,
+} from "../../deps";
+import { stringifyEsbuildMessage, writeEsbuildFile } from "../../esbuild";
+import {
+  buildFile,
+  buildFunctions,
+  FiremynaFunction,
+  listFunctions,
+  outputFile,
+  outputFormat,
+} from "../../functions";
+import { buildHosting } from "../../hosting";
+import { FiremynaPkg, removePkgDependencies } from "../../pkg";
+import { nextRenderer, remixRenderer } from "../../presets/renderer";
+import { prepareBuild, writeBuildPkg } from "../prepare";
+
+const exec = promisify(cp.exec);
+
+/**
+ * The build result.
+ */
+export interface FiremynaBuildResult {
+  /** The Firemyna build config */
+  buildConfig: FiremynaBuildConfig;
+  /** The built functions */
+  functions: FiremynaFunction[];
+  /** The written output files paths relative to the working directory */
+  outputFiles: string[];
+  /** The build warnings */
+  warnings: string[];
+  /** The generated package.json */
+  pkg: FiremynaPkg;
+  /** The functions bundles analysis if requested */
+  analysis?: FiremynaBuildAnalysis;
+}
+
+/**
+ * The {@link runBuild} function options.
+ */
+export interface RunBuildOptions {
+  /** Called when the build moves to the next step */
+  onStep?: (title: string) => void;
+  /** Analyze the functions bundles and write the metafile and the treemap
+   * into the build directory */
+  analyze?: boolean;
+}
+
+/**
+ * Builds the app for deployment: the functions, the renderer and the preset
+ * app.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @param options - the build options
+ * @returns promise to the build result
+ */
+export async function runBuild(
+  buildConfig: FiremynaBuildConfig,
+  { onStep, analyze }: RunBuildOptions = {}
+): Promise<FiremynaBuildResult> {
+  const { config } = buildConfig;
+
+  onStep?.("Building the app");
+
+  const [functions, functionsBuild, prepared, rendererBuild] =
+    await Promise.all([
+      listFunctions(buildConfig),
+
+      buildFunctions(buildConfig).then(async (functions) => {
+        await Promise.all(Object.values(functions).map(writeEsbuildFile));
+        return functions;
+      }),
+
+      prepareBuild(buildConfig),
+
+      config.preset === "remix"
+        ? exec("npx remix build", {
+            cwd: buildConfig.cwd,
+            env: { ...process.env, NODE_ENV: "production" },
+          }).then(async () => {
+            const build = await buildRenderer(
+              buildConfig,
+              remixRenderer(outputFormat(buildConfig))
+            );
+
+            await exec(
+              `rsync --recursive --prune-empty-dirs --exclude=build/* public/* ${buildConfig.paths.hosting.build}`,
+              { cwd: resolve(buildConfig.cwd) }
+            );
+
+            return build;
+          })
+        : config.preset === "next"
+        ? exec("npx next build", {
+            cwd: buildConfig.cwd,
+            env: { ...process.env, NODE_ENV: "production" },
+          }).then(async () => {
+            const build = await buildRenderer(
+              buildConfig,
+              nextRenderer(outputFormat(buildConfig))
+            );
+
+            await exec(
+              `rsync --recursive --prune-empty-dirs public/* ${buildConfig.paths.hosting.build}`,
+              { cwd: resolve(buildConfig.cwd) }
+            );
+
+            await exec(
+              `rsync --recursive .next ${buildConfig.paths.functions.build}`,
+              { cwd: resolve(buildConfig.cwd) }
+            );
+
+            return build;
+          })
+        : undefined,
+    ]);
+
+  let { pkg } = prepared;
+  const { packageManager } = prepared;
+
+  const analysis = analyzeFunctionsBuild(
+    buildConfig,
+    functions,
+    functionsBuild
+  );
+
+  const exceededBudgets = checkBudgets(buildConfig, analysis);
+  if (exceededBudgets.length)
+    throw new Error(
+      `The functions exceed the size budgets:\n${exceededBudgets
+        .map((message) => `  - ${message}`)
+        .join("\n")}`
+    );
+
+  const analysisFiles = analyze
+    ? await writeBuildAnalysis(buildConfig, functionsBuild, analysis)
+    : [];
+
+  const builds: BuildResult[] = Object.values(functionsBuild).concat(
+    rendererBuild || []
+  );
+  const deps = parseMetafileDependencies(builds);
+
+  const depsCheck = await checkDependencies(buildConfig, pkg, deps);
+  if (depsCheck.errors.length)
+    throw new Error(
+      `The functions import packages missing in package.json dependencies:\n${depsCheck.errors
+        .map((name) => `  - ${name}`)
+        .join("\n")}`
+    );
+
+  const pkgWarnings: string[] = [...depsCheck.warnings];
+
+  if (config.minimalPackage) {
+    onStep?.("Generating the minimal package.json");
+
+    const minimal = await generateMinimalPkg(
+      buildConfig,
+      pkg,
+      packageManager,
+      deps
+    );
+    pkg = minimal.pkg;
+    pkgWarnings.push(...minimal.warnings);
+    await writeBuildPkg(buildConfig, packageManager, pkg);
+  } else if (config.optimizePackages) {
+    onStep?.("Optimizing npm dependencies");
+
+    const buildDeps = await parseBuildDependencies(buildConfig);
+    const pkgDeps = listPkgDependencies(pkg);
+    const unusedDeps = difference(
+      remove(difference(pkgDeps, buildDeps), "firebase-admin"),
+      config.keepDependencies || []
+    );
+
+    pkg = removePkgDependencies(pkg, unusedDeps);
+    await writeBuildPkg(buildConfig, packageManager, pkg);
+  }
+
+  await buildPresetApp(buildConfig);
+  await buildHosting(buildConfig);
+
+  return {
+    buildConfig,
+    functions,
+    outputFiles: builds
+      .flatMap(
+        (build) =>
+          build.outputFiles?.map((file) =>
+            relative(buildConfig.cwd, file.path)
+          ) || []
+      )
+      .concat(analysisFiles),
+    warnings: builds
+      .flatMap((build) => build.warnings.map(stringifyEsbuildMessage))
+      .concat(pkgWarnings)
+      .concat(nodeDeprecationWarning(config.node) || []),
+    pkg,
+    analysis: analyze ? analysis : undefined,
+  };
+}
+
+/**
+ * Builds and writes the renderer function.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @param contents - the renderer source code
+ * @returns promise to the renderer build result
+ */
+async function buildRenderer(
+  buildConfig: FiremynaBuildConfig,
+  contents: string
+) {
+  const build = await buildFile({
+    file: outputFile(buildConfig, "renderer"),
+    input: {
+      type: "contents",
+      contents,
+    },
+    resolvePath: resolve(buildConfig.cwd, buildConfig.paths.functions.build),
+    buildConfig,
+  });
+
+  await writeEsbuildFile(build);
+
+  return build;
+}
+
+/**
+ * Builds the preset app (Astro, Create React App or Vite).
+ *
+ * @param buildConfig - the Firemyna build config
+ * @returns promise to the build completion
+ */
+async function buildPresetApp(buildConfig: FiremynaBuildConfig) {
+  let p: cp.ChildProcess | undefined;
+
+  switch (buildConfig.config.preset) {
+    case "astro": {
+      p = cp.spawn("npx", ["astro", "build"], {
+        cwd: buildConfig.cwd,
+        shell: true,
+        stdio: "inherit",
+      });
+      break;
+    }
+
+    case "cra": {
+      p = cp.spawn("npx", ["react-scripts", "build"], {
+        cwd: buildConfig.cwd,
+        shell: true,
+        stdio: "inherit",
+        env: {
+          ...process.env,
+          BUILD_PATH: buildConfig.paths.hosting.build,
+        },
+      });
+      break;
+    }
+
+    case "vite": {
+      p = cp.spawn("npx", ["vite", "build"], {
+        cwd: buildConfig.cwd,
+        shell: true,
+        stdio: "inherit",
+      });
+      break;
+    }
+  }
+
+  await new Promise((resolve) =>
+    p ? p.on("close", resolve) : resolve(void 0)
+  );
+}
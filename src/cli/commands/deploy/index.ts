@@ -1,47 +1,41 @@
-import { CliUx } from "@oclif/core";
-import cp from "child_process";
-import { resolve } from "path";
-import Build from "../build";
-import { tokenFlag } from "../../flags";
+import { CliUx, Command } from "@oclif/core";
+import { build } from "../../../api";
+import { runDeploy } from "../../../deploy";
+import { configFlag, cwdFlag, projectFlag, tokenFlag } from "../../flags";
+import { startActionStep, stopActionStep } from "../../shared/base";
 
-export default class Deploy extends Build {
+export default class Deploy extends Command {
   static description = "Deploy the Firemyna project";
 
   static flags = {
-    ...Build.flags,
+    cwd: cwdFlag,
+    config: configFlag,
+    project: projectFlag,
     token: tokenFlag,
   };
 
   async run() {
-    const buildConfig = await Build.prototype.run.call(this);
-
     const { flags } = await this.parse(Deploy);
-    const token = flags.token;
+
+    const result = await build({
+      cwd: flags.cwd,
+      configPath: flags.config,
+      project: flags.project,
+      onStep: startActionStep,
+    });
+
+    stopActionStep();
+
+    result.warnings.forEach((warning) => this.warn(warning));
 
     CliUx.ux.log("Deploying the app...");
 
-    const p = cp.spawn(
-      "npx",
-      ["firebase", "deploy"]
-        // Assign Firebase project
-        .concat(buildConfig.project ? ["--project", buildConfig.project] : [])
-        // Assign Firebase token for CI
-        // TODO: Remove with the next Firebase Tools
-        .concat(token ? ["--token", token] : [])
-        // Force deploy (removal of functions)
-        .concat(buildConfig.config.deploy?.force ? ["--force"] : []),
-      {
-        cwd: resolve(buildConfig.cwd, buildConfig.paths.appEnvBuild),
-        shell: true,
-        stdio: "inherit",
-        env: process.env,
-      }
-    );
-
-    p.on("exit", (exit) => exit && process.exit(exit));
-
-    await new Promise((resolve) => p.on("close", resolve));
-
-    return buildConfig;
+    const exitCode = await runDeploy(result.buildConfig, {
+      token: flags.token,
+    });
+
+    if (exitCode) process.exit(exitCode);
+
+    return result;
   }
 }
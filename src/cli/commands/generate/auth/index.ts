@@ -0,0 +1,52 @@
+import { Command } from "@oclif/core";
+import { authFunctionTemplate } from "../../../../templates";
+import { commandEnv, commandFlags } from "../../../shared/base";
+import {
+  generateCommandArgs,
+  generateCommandFlags,
+  generateFunction,
+  generateInitData,
+} from "../../../shared/generate";
+
+export default class GenerateAuth extends Command {
+  static aliases = ["g:auth"];
+
+  static description = "Generates an Auth trigger function";
+
+  static args = [
+    ...generateCommandArgs,
+    {
+      name: "event",
+      description:
+        'The Auth trigger event ("create", "delete", "beforeCreate" or "beforeSignIn")',
+      required: true,
+      options: ["create", "delete", "beforeCreate", "beforeSignIn"],
+    },
+  ];
+
+  static flags = {
+    ...commandFlags,
+    ...generateCommandFlags,
+  };
+
+  async run() {
+    const { args, flags } = await this.parse(GenerateAuth);
+    const { cwd, config: configPath } = flags;
+    const name = args.functionName;
+
+    const { config } = await commandEnv(cwd, configPath);
+
+    await generateFunction({
+      cwd,
+      configPath,
+      name,
+      source: await authFunctionTemplate({
+        name,
+        format: config.format,
+        ...generateInitData(flags, config),
+        event: args.event,
+      }),
+      title: "an Auth trigger function",
+    });
+  }
+}
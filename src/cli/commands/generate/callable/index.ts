@@ -5,6 +5,7 @@ import {
   generateCommandArgs,
   generateCommandFlags,
   generateFunction,
+  generateInitData,
 } from "../../../shared/generate";
 
 export default class GenerateCallable extends Command {
@@ -24,9 +25,7 @@ export default class GenerateCallable extends Command {
     const { cwd, config: configPath } = flags;
     const name = args.functionName;
 
-    const {
-      config: { format },
-    } = await commandEnv(cwd, configPath);
+    const { config } = await commandEnv(cwd, configPath);
 
     await generateFunction({
       cwd,
@@ -34,9 +33,8 @@ export default class GenerateCallable extends Command {
       name,
       source: await callableFunctionTemplate({
         name,
-        format,
-        memory: flags.memory,
-        region: flags.region,
+        format: config.format,
+        ...generateInitData(flags, config),
       }),
       title: "a callable function",
     });
@@ -0,0 +1,43 @@
+import { CliUx, Command } from "@oclif/core";
+import { resolve } from "path";
+import { cyan, underline } from "picocolors";
+import { getBuildConfig } from "../../../../build";
+import { writeCallablesClient } from "../../../../client";
+import { presetProjectPaths } from "../../../../presets/paths";
+import { commandEnv, commandFlags } from "../../../shared/base";
+
+export default class GenerateClient extends Command {
+  static aliases = ["g:client"];
+
+  static description = "Generates the typed callables client for the web app";
+
+  static flags = commandFlags;
+
+  async run() {
+    const { flags } = await this.parse(GenerateClient);
+    const { config: configPath } = flags;
+    const cwd = resolve(flags.cwd);
+
+    const { config } = await commandEnv(cwd, configPath);
+
+    const buildConfig = getBuildConfig({
+      mode: "dev",
+      project: undefined,
+      appEnv: "development",
+      cwd,
+      config,
+      projectPaths: presetProjectPaths(config.preset, config.functionsPath),
+      renderer: false,
+    });
+
+    CliUx.ux.action.start("Generating the callables client");
+
+    const clientPath = await writeCallablesClient(buildConfig);
+
+    CliUx.ux.action.stop();
+
+    CliUx.ux.info(
+      `Generated the callables client at ${cyan(underline(clientPath))}`
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { Command, Flags } from "@oclif/core";
+import { eventarcFunctionTemplate } from "../../../../templates";
+import { commandEnv, commandFlags } from "../../../shared/base";
+import {
+  generateCommandArgs,
+  generateCommandFlags,
+  generateFunction,
+  generateInitData,
+} from "../../../shared/generate";
+
+export default class GenerateEventarc extends Command {
+  static aliases = ["g:eventarc"];
+
+  static description =
+    "Generates an Eventarc custom event trigger function (2nd gen only)";
+
+  static args = [
+    ...generateCommandArgs,
+    {
+      name: "eventType",
+      description: 'The custom event type (i.e. "com.example.v1.event")',
+      required: true,
+    },
+  ];
+
+  static flags = {
+    ...commandFlags,
+    ...generateCommandFlags,
+    channel: Flags.string({
+      description: "The Eventarc channel, the default channel if omitted",
+    }),
+  };
+
+  async run() {
+    const { args, flags } = await this.parse(GenerateEventarc);
+    const { cwd, config: configPath } = flags;
+    const name = args.functionName;
+
+    const { config } = await commandEnv(cwd, configPath);
+
+    await generateFunction({
+      cwd,
+      configPath,
+      name,
+      source: await eventarcFunctionTemplate({
+        name,
+        format: config.format,
+        ...generateInitData(flags, config),
+        // Eventarc is 2nd gen only, so only the explicit flag overrides it
+        gen: flags.gen === "1" ? 1 : 2,
+        eventType: args.eventType,
+        channel: flags.channel,
+      }),
+      title: "an Eventarc trigger function",
+    });
+  }
+}
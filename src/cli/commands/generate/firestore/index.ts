@@ -5,6 +5,7 @@ import {
   generateCommandArgs,
   generateCommandFlags,
   generateFunction,
+  generateInitData,
 } from "../../../shared/generate";
 
 export default class GenerateFirestore extends Command {
@@ -38,9 +39,7 @@ export default class GenerateFirestore extends Command {
     const { cwd, config: configPath } = flags;
     const name = args.functionName;
 
-    const {
-      config: { format },
-    } = await commandEnv(cwd, configPath);
+    const { config } = await commandEnv(cwd, configPath);
 
     await generateFunction({
       cwd,
@@ -48,9 +47,8 @@ export default class GenerateFirestore extends Command {
       name,
       source: await firestoreFunctionTemplate({
         name,
-        format,
-        memory: flags.memory,
-        region: flags.region,
+        format: config.format,
+        ...generateInitData(flags, config),
         event: args.event,
         path: args.path,
       }),
@@ -6,6 +6,7 @@ import {
   generateCommandArgs,
   generateCommandFlags,
   generateFunction,
+  generateInitData,
 } from "../../../shared/generate";
 
 export default class GenerateHTTP extends Command {
@@ -27,9 +28,7 @@ export default class GenerateHTTP extends Command {
     const { cwd, config: configPath } = flags;
     const name = args.functionName;
 
-    const {
-      config: { format },
-    } = await commandEnv(cwd, configPath);
+    const { config } = await commandEnv(cwd, configPath);
 
     await generateFunction({
       cwd,
@@ -37,9 +36,8 @@ export default class GenerateHTTP extends Command {
       name,
       source: await httpFunctionTemplate({
         name,
-        format,
-        memory: flags.memory,
-        region: flags.region,
+        format: config.format,
+        ...generateInitData(flags, config),
         cookie: flags.cookie,
         cors: flags.cors,
       }),
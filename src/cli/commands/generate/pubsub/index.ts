@@ -0,0 +1,50 @@
+import { Command } from "@oclif/core";
+import { pubsubFunctionTemplate } from "../../../../templates";
+import { commandEnv, commandFlags } from "../../../shared/base";
+import {
+  generateCommandArgs,
+  generateCommandFlags,
+  generateFunction,
+  generateInitData,
+} from "../../../shared/generate";
+
+export default class GeneratePubSub extends Command {
+  static aliases = ["g:pubsub"];
+
+  static description = "Generates a Pub/Sub topic trigger function";
+
+  static args = [
+    ...generateCommandArgs,
+    {
+      name: "topic",
+      description: 'The Pub/Sub topic name (i.e. "orders")',
+      required: true,
+    },
+  ];
+
+  static flags = {
+    ...commandFlags,
+    ...generateCommandFlags,
+  };
+
+  async run() {
+    const { args, flags } = await this.parse(GeneratePubSub);
+    const { cwd, config: configPath } = flags;
+    const name = args.functionName;
+
+    const { config } = await commandEnv(cwd, configPath);
+
+    await generateFunction({
+      cwd,
+      configPath,
+      name,
+      source: await pubsubFunctionTemplate({
+        name,
+        format: config.format,
+        ...generateInitData(flags, config),
+        topic: args.topic,
+      }),
+      title: "a Pub/Sub topic trigger function",
+    });
+  }
+}
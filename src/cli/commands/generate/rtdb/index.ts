@@ -5,6 +5,7 @@ import {
   generateCommandArgs,
   generateCommandFlags,
   generateFunction,
+  generateInitData,
 } from "../../../shared/generate";
 
 export default class GenerateRtdb extends Command {
@@ -41,9 +42,7 @@ export default class GenerateRtdb extends Command {
     const { cwd, config: configPath } = flags;
     const name = args.functionName;
 
-    const {
-      config: { format },
-    } = await commandEnv(cwd, configPath);
+    const { config } = await commandEnv(cwd, configPath);
 
     await generateFunction({
       cwd,
@@ -51,9 +50,8 @@ export default class GenerateRtdb extends Command {
       name,
       source: await rtdbFunctionTemplate({
         name,
-        format,
-        memory: flags.memory,
-        region: flags.region,
+        format: config.format,
+        ...generateInitData(flags, config),
         event: args.event,
         path: args.path,
         instance: flags.instance,
@@ -5,6 +5,7 @@ import {
   generateCommandArgs,
   generateCommandFlags,
   generateFunction,
+  generateInitData,
 } from "../../../shared/generate";
 
 export default class GenerateSchedule extends Command {
@@ -35,9 +36,7 @@ export default class GenerateSchedule extends Command {
     const { cwd, config: configPath } = flags;
     const name = args.functionName;
 
-    const {
-      config: { format },
-    } = await commandEnv(cwd, configPath);
+    const { config } = await commandEnv(cwd, configPath);
 
     await generateFunction({
       cwd,
@@ -45,9 +44,8 @@ export default class GenerateSchedule extends Command {
       name,
       source: await scheduleFunctionTemplate({
         name,
-        format,
-        memory: flags.memory,
-        region: flags.region,
+        format: config.format,
+        ...generateInitData(flags, config),
         schedule: args.schedule,
         tz: flags.tz,
       }),
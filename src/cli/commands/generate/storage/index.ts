@@ -0,0 +1,56 @@
+import { Command, Flags } from "@oclif/core";
+import { storageFunctionTemplate } from "../../../../templates";
+import { commandEnv, commandFlags } from "../../../shared/base";
+import {
+  generateCommandArgs,
+  generateCommandFlags,
+  generateFunction,
+  generateInitData,
+} from "../../../shared/generate";
+
+export default class GenerateStorage extends Command {
+  static aliases = ["g:storage"];
+
+  static description = "Generates a Storage trigger function";
+
+  static args = [
+    ...generateCommandArgs,
+    {
+      name: "event",
+      description:
+        'The Storage trigger event ("finalize", "delete", "archive" or "metadataUpdate")',
+      required: true,
+      options: ["finalize", "delete", "archive", "metadataUpdate"],
+    },
+  ];
+
+  static flags = {
+    ...commandFlags,
+    ...generateCommandFlags,
+    bucket: Flags.string({
+      description: "The Storage bucket name, the default bucket if omitted",
+    }),
+  };
+
+  async run() {
+    const { args, flags } = await this.parse(GenerateStorage);
+    const { cwd, config: configPath } = flags;
+    const name = args.functionName;
+
+    const { config } = await commandEnv(cwd, configPath);
+
+    await generateFunction({
+      cwd,
+      configPath,
+      name,
+      source: await storageFunctionTemplate({
+        name,
+        format: config.format,
+        ...generateInitData(flags, config),
+        event: args.event,
+        bucket: flags.bucket,
+      }),
+      title: "a Storage trigger function",
+    });
+  }
+}
@@ -0,0 +1,50 @@
+import { Command, Flags } from "@oclif/core";
+import { taskFunctionTemplate } from "../../../../templates";
+import { commandEnv, commandFlags } from "../../../shared/base";
+import {
+  generateCommandArgs,
+  generateCommandFlags,
+  generateFunction,
+  generateInitData,
+} from "../../../shared/generate";
+
+export default class GenerateTask extends Command {
+  static aliases = ["g:task"];
+
+  static description = "Generates a Cloud Tasks queue function";
+
+  static args = generateCommandArgs;
+
+  static flags = {
+    ...commandFlags,
+    ...generateCommandFlags,
+    "max-attempts": Flags.integer({
+      description: "The maximum number of attempts for a task",
+    }),
+    "max-concurrent-dispatches": Flags.integer({
+      description: "The maximum number of tasks dispatched at the same time",
+    }),
+  };
+
+  async run() {
+    const { args, flags } = await this.parse(GenerateTask);
+    const { cwd, config: configPath } = flags;
+    const name = args.functionName;
+
+    const { config } = await commandEnv(cwd, configPath);
+
+    await generateFunction({
+      cwd,
+      configPath,
+      name,
+      source: await taskFunctionTemplate({
+        name,
+        format: config.format,
+        ...generateInitData(flags, config),
+        maxAttempts: flags["max-attempts"],
+        maxConcurrentDispatches: flags["max-concurrent-dispatches"],
+      }),
+      title: "a task queue function",
+    });
+  }
+}
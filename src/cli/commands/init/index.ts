@@ -2,6 +2,7 @@ import { CliUx, Command } from "@oclif/core";
 import { writeFile } from "fs/promises";
 import { resolve } from "path";
 import { FiremynaConfigResolved } from "../../../config";
+import { nodeDeprecationWarning } from "../../../config/node";
 import { getConfigFileName } from "../../../config/paths";
 import { ensurePath, getFunctionSourcePath, getPaths } from "../../../paths";
 import { presetProjectPaths } from "../../../presets/paths";
@@ -17,7 +18,7 @@ import {
   nodeFlag,
   presetFlag,
 } from "../../flags";
-import { promptFormat, promptFunctions } from "../../prompts";
+import { promptFormat, promptFunctions, promptNode } from "../../prompts";
 
 export default class Init extends Command {
   static description = "Init the Firemyna project";
@@ -34,7 +35,7 @@ export default class Init extends Command {
   async run() {
     const { flags } = await this.parse(Init);
     const cwd = flags.cwd;
-    const node = flags.node;
+    const node = flags.node ?? (await promptNode());
     const preset = flags.preset;
     const format = flags.format ?? (await promptFormat());
     const functionsPath = flags.functions ?? (await promptFunctions());
@@ -68,5 +69,8 @@ export default class Init extends Command {
     ]);
 
     CliUx.ux.action.stop();
+
+    const nodeWarning = nodeDeprecationWarning(node);
+    if (nodeWarning) this.warn(nodeWarning);
   }
 }
@@ -0,0 +1,49 @@
+import { Command } from "@oclif/core";
+import { readFile } from "fs/promises";
+import { stacktrace } from "../../../api";
+import { configFlag, cwdFlag, projectFlag } from "../../flags";
+
+export default class Stacktrace extends Command {
+  static description =
+    "Maps a production stack trace to the sources using the build source maps";
+
+  static args = [
+    {
+      name: "file",
+      description: "The file with the stack trace, reads stdin if omitted",
+    },
+  ];
+
+  static flags = {
+    cwd: cwdFlag,
+    config: configFlag,
+    project: projectFlag,
+  };
+
+  async run() {
+    const { args, flags } = await this.parse(Stacktrace);
+
+    const trace = args.file
+      ? await readFile(args.file, "utf8")
+      : await readStdin();
+
+    const result = await stacktrace(trace, {
+      cwd: flags.cwd,
+      configPath: flags.config,
+      project: flags.project,
+    });
+
+    this.log(result);
+  }
+}
+
+/**
+ * Reads the whole stdin, i.e. the pasted stack trace.
+ *
+ * @returns promise to the stdin contents
+ */
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk);
+  return Buffer.concat(chunks).toString("utf8");
+}
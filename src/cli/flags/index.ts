@@ -1,9 +1,6 @@
 import { Flags } from "@oclif/core";
-import {
-  defaultNode,
-  FiremynaFormat,
-  FiremynaFunctionsNode,
-} from "../../config";
+import { FiremynaFormat, FiremynaFunctionsNode } from "../../config";
+import { functionsNodeVersions } from "../../config/node";
 import {
   FirebaseMemoryOption,
   firebaseMemoryOptions,
@@ -12,11 +9,10 @@ import {
 } from "../../firebase/exports";
 import { FiremynaPreset } from "../../presets";
 
-export const nodeFlag = Flags.enum<FiremynaFunctionsNode>({
+export const nodeFlag = Flags.enum<FiremynaFunctionsNode | undefined>({
   description: "The Node.js version to use",
   char: "n",
-  options: ["14", "16", "18"],
-  default: defaultNode,
+  options: functionsNodeVersions,
 });
 
 export const presetFlag = Flags.enum<FiremynaPreset | undefined>({
@@ -55,6 +51,29 @@ export const regionFlag = Flags.enum<FirebaseRegion | FirebaseRegion[]>({
   options: firebaseRegions,
 });
 
+export const genFlag = Flags.enum<"1" | "2">({
+  description: "The Firebase Functions generation to generate code for",
+  options: ["1", "2"],
+});
+
+export const concurrencyFlag = Flags.integer({
+  description:
+    "The maximum number of concurrent requests per instance (2nd gen only)",
+});
+
+export const minInstancesFlag = Flags.integer({
+  description: "The minimum number of instances to keep warm",
+});
+
+export const cpuFlag = Flags.string({
+  description: "The number of CPUs to allocate or gcf_gen1 (2nd gen only)",
+});
+
+export const secretFlag = Flags.string({
+  description: "The secret to expose to the function",
+  multiple: true,
+});
+
 export const cookieFlag = Flags.boolean({
   description: "Enable cookie parsing middleware",
 });
@@ -1,5 +1,13 @@
 import inquirer from "inquirer";
-import { FiremynaFormat } from "../../config";
+import {
+  defaultNode,
+  FiremynaFormat,
+  FiremynaFunctionsNode,
+} from "../../config";
+import {
+  decommissionedNodeVersions,
+  functionsNodeVersions,
+} from "../../config/node";
 import { FiremynaPreset } from "../../presets";
 
 export async function promptFormat(): Promise<FiremynaFormat> {
@@ -15,6 +23,25 @@ export async function promptFormat(): Promise<FiremynaFormat> {
   return format;
 }
 
+export async function promptNode(): Promise<FiremynaFunctionsNode> {
+  const { node } = await inquirer.prompt({
+    name: "node",
+    message: "Select the Node.js version",
+    type: "list",
+    choices: functionsNodeVersions
+      .slice()
+      .reverse()
+      .map((node) => ({
+        name: decommissionedNodeVersions.includes(node)
+          ? `Node.js ${node} (decommissioned)`
+          : `Node.js ${node}`,
+        value: node,
+      })),
+    default: defaultNode,
+  });
+  return node;
+}
+
 export async function promptPreset(): Promise<FiremynaPreset> {
   const { preset } = await inquirer.prompt({
     name: "preset",
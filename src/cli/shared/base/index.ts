@@ -1,3 +1,4 @@
+import { CliUx } from "@oclif/core";
 import {
   FiremynaConfigResolved,
   loadConfig,
@@ -38,9 +39,13 @@ export async function commandEnv(
 ): Promise<FiremynaCommandEnv> {
   if (_commandEnv) return _commandEnv;
 
-  const config = await loadConfig(cwd, configPath);
-  if (!config) throw new Error("Can not find the Firemyna config file");
-  const resolvedConfig = configWithDefaults(config);
+  const loadedConfig = await loadConfig(cwd, configPath, {
+    mode: "dev",
+    appEnv: "development",
+    project: undefined,
+  });
+  if (!loadedConfig) throw new Error("Can not find the Firemyna config file");
+  const resolvedConfig = configWithDefaults(loadedConfig.config);
 
   const projectPaths = presetProjectPaths(
     resolvedConfig.preset,
@@ -57,3 +62,20 @@ export async function commandEnv(
  * @private
  */
 var _commandEnv: FiremynaCommandEnv | undefined;
+
+/**
+ * Starts the CLI action for the step, stopping the previous one.
+ *
+ * @param title - the step title
+ */
+export function startActionStep(title: string) {
+  CliUx.ux.action.running && CliUx.ux.action.stop();
+  CliUx.ux.action.start(title);
+}
+
+/**
+ * Stops the CLI action if it's running.
+ */
+export function stopActionStep() {
+  CliUx.ux.action.running && CliUx.ux.action.stop();
+}
@@ -2,8 +2,22 @@ import { CliUx } from "@oclif/core";
 import { writeFile } from "fs/promises";
 import { relative } from "path";
 import { cyan, green, underline } from "picocolors";
+import { FiremynaConfigResolved, FiremynaFunctionsGen } from "../../../config";
+import {
+  FirebaseMemoryOption,
+  FirebaseRegion,
+} from "../../../firebase/exports";
 import { getFunctionSourcePath } from "../../../paths";
-import { memoryFlag, regionFlag } from "../../flags";
+import { FunctionsInitData } from "../../../templates";
+import {
+  concurrencyFlag,
+  cpuFlag,
+  genFlag,
+  memoryFlag,
+  minInstancesFlag,
+  regionFlag,
+  secretFlag,
+} from "../../flags";
 import { commandEnv } from "../base";
 
 /**
@@ -21,10 +35,70 @@ export const generateCommandArgs = [
  * Common generate command flags.
  */
 export const generateCommandFlags = {
+  gen: genFlag,
   memory: memoryFlag,
   region: regionFlag,
+  concurrency: concurrencyFlag,
+  "min-instances": minInstancesFlag,
+  cpu: cpuFlag,
+  secret: secretFlag,
 };
 
+/**
+ * The parsed common generate command flags.
+ */
+export interface GenerateCommandFlags {
+  gen?: "1" | "2";
+  memory?: FirebaseMemoryOption;
+  region?: FirebaseRegion | FirebaseRegion[];
+  concurrency?: number;
+  "min-instances"?: number;
+  cpu?: string;
+  secret?: string[];
+}
+
+/**
+ * Generates the functions init data from the common generate command flags.
+ * The generation and the runtime options default to the config values. When
+ * the defaults are applied at the build time, 2nd gen functions inherit them,
+ * so they aren't generated into the code.
+ *
+ * @param flags - the parsed flags
+ * @param config - the Firemyna config
+ * @returns the functions init data
+ */
+export function generateInitData(
+  flags: GenerateCommandFlags,
+  config: FiremynaConfigResolved
+): FunctionsInitData {
+  const cpu =
+    flags.cpu === undefined || flags.cpu === "gcf_gen1"
+      ? flags.cpu
+      : Number(flags.cpu);
+  if (Number.isNaN(cpu))
+    throw new Error(`The cpu must be a number or gcf_gen1, got ${flags.cpu}`);
+
+  const gen = flags.gen
+    ? (Number(flags.gen) as FiremynaFunctionsGen)
+    : config.gen;
+
+  const defaults =
+    gen === 2 && config.functions?.applyDefaults
+      ? {}
+      : config.functions?.defaults || {};
+
+  return {
+    ...defaults,
+    gen,
+    memory: flags.memory ?? defaults.memory,
+    region: flags.region ?? defaults.region,
+    concurrency: flags.concurrency,
+    minInstances: flags["min-instances"] ?? defaults.minInstances,
+    cpu,
+    secrets: flags.secret ?? defaults.secrets,
+  };
+}
+
 /**
  * The {@link BaseGenerateCommand.prototype.generate} function props.
  */
@@ -0,0 +1,466 @@
+/**
+ * @module client
+ *
+ * The Firemyna client module - generates the typed callables client that
+ * allows the web app to call the callable functions without relying on
+ * untyped `httpsCallable("name")` strings.
+ */
+
+import { readFile, writeFile } from "fs/promises";
+import { basename, extname, resolve } from "path";
+import { format as formatSource } from "prettier";
+import ts from "typescript";
+import { FiremynaBuildConfig } from "../build";
+import { FiremynaFormat } from "../config";
+import { functionDeployName, listFunctions } from "../functions";
+import { parseSourceFile } from "../functions/exports";
+import { getClientPath, getModuleImportPath } from "../paths";
+
+/**
+ * The callable function definition.
+ */
+export interface FiremynaCallable {
+  /** The function deployed name (i.e. `billing-charge` for grouped functions) */
+  name: string;
+  /** The data (input) type source code */
+  dataType: string;
+  /** The result (output) type source code */
+  resultType: string;
+  /** The types imports required by the data and the result types */
+  imports: FiremynaCallableImport[];
+}
+
+/**
+ * The callable function type import.
+ */
+export interface FiremynaCallableImport {
+  /** The imported name (default for default imports, * for namespaces) */
+  imported: string;
+  /** The local name used in the type source code */
+  local: string;
+  /** The module path relative to the function source file or package name */
+  from: string;
+}
+
+/**
+ * Generates the callables client and writes it to the disk.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @returns promise to the client path relative to the working directory
+ */
+export async function writeCallablesClient(
+  buildConfig: FiremynaBuildConfig
+): Promise<string> {
+  const clientPath = getClientPath(buildConfig.paths, buildConfig.config);
+  const source = await generateCallablesClient(buildConfig);
+  await writeFile(resolve(buildConfig.cwd, clientPath), source);
+  return clientPath;
+}
+
+/**
+ * Analyzes the functions and generates the callables client source code.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @returns promise to the callables client source code
+ */
+export async function generateCallablesClient(
+  buildConfig: FiremynaBuildConfig
+): Promise<string> {
+  const clientPath = getClientPath(buildConfig.paths, buildConfig.config);
+  const fns = await listFunctions(buildConfig);
+
+  const callables = await Promise.all(
+    fns.map(async (fn) => {
+      const fullPath = resolve(buildConfig.cwd, fn.path);
+      const source = await readFile(fullPath, "utf8");
+      const name = functionDeployName(fn);
+
+      const fnCallables = fn.exports
+        ? fn.exports.map((exportName) =>
+            parseCallable(`${name}-${exportName}`, fn.path, source, exportName)
+          )
+        : [parseCallable(name, fn.path, source)];
+
+      return fnCallables.filter((callable): callable is FiremynaCallable => {
+        if (!callable) return false;
+
+        // Make the imports relative to the client module
+        callable.imports.forEach((imp) => {
+          if (!imp.from.startsWith(".")) return;
+          imp.from = getModuleImportPath(
+            resolve(buildConfig.cwd, clientPath),
+            resolve(fullPath, "..", imp.from)
+          );
+        });
+
+        return true;
+      });
+    })
+  );
+
+  return stringifyCallablesClient(
+    callables.flat(),
+    extname(clientPath) === ".js" ? "js" : "ts"
+  );
+}
+
+/**
+ * Statically analyzes the function source code and if it's a callable
+ * function, returns its definition.
+ *
+ * @param name - the function name
+ * @param path - the function source path
+ * @param source - the function source code
+ * @param exportName - the function export name
+ * @returns the callable definition if the function is callable
+ */
+export function parseCallable(
+  name: string,
+  path: string,
+  source: string,
+  exportName = "default"
+): FiremynaCallable | undefined {
+  const sourceFile = parseSourceFile(path, source);
+
+  const exportExpression = findExportExpression(sourceFile, exportName);
+  if (!exportExpression) return;
+
+  const handler = findCallableHandler(sourceFile, exportExpression);
+  if (!handler) return;
+
+  const imports: FiremynaCallableImport[] = [];
+  const dataNode = unwrapCallableRequest(handler.parameters[0]?.type);
+  const resultNode = handler.type;
+
+  const dataType = dataNode
+    ? stringifyTypeNode(sourceFile, path, dataNode, imports)
+    : "unknown";
+  const resultType = resultNode
+    ? stringifyTypeNode(sourceFile, path, resultNode, imports)
+    : "unknown";
+
+  return { name, dataType, resultType, imports };
+}
+
+/**
+ * Generates the callable client function name from the deployed name, i.e.
+ * `billing_charge` for `billing-charge`.
+ *
+ * @param name - the function deployed name
+ * @returns the client function name
+ */
+function callableExportName(name: string): string {
+  return name.replace(/-/g, "_");
+}
+
+/**
+ * Generates the callables client source code.
+ *
+ * @param callables - the callables list
+ * @param format - the client source code format
+ * @returns the callables client source code
+ */
+export async function stringifyCallablesClient(
+  callables: FiremynaCallable[],
+  format: FiremynaFormat
+): Promise<string> {
+  const exportNames = new Map<string, string>();
+  callables.forEach(({ name }) => {
+    const exportName = callableExportName(name);
+    const existing = exportNames.get(exportName);
+    if (existing)
+      throw new Error(
+        `The functions ${existing} and ${name} have the same client function name ${exportName}`
+      );
+    exportNames.set(exportName, name);
+  });
+
+  const typeImports =
+    format === "ts" ? stringifyTypeImports(callables).concat("") : [];
+
+  const fns = callables.map(({ name, dataType, resultType }) =>
+    format === "ts"
+      ? `export function ${callableExportName(
+          name
+        )}(data: ${dataType}, functions: Functions = getFunctions()): Promise<Awaited<${resultType}>> {
+  return httpsCallable<${dataType}, Awaited<${resultType}>>(functions, ${JSON.stringify(
+    name
+  )})(data).then((result) => result.data);
+}`
+      : `export function ${callableExportName(
+          name
+        )}(data, functions = getFunctions()) {
+  return httpsCallable(functions, ${JSON.stringify(
+    name
+  )})(data).then((result) => result.data);
+}`
+  );
+
+  return formatSource(
+    [
+      "// This file is generated by Firemyna, do not edit it manually.",
+      "",
+      'import { getFunctions, httpsCallable } from "firebase/functions";',
+      ...(format === "ts"
+        ? ['import type { Functions } from "firebase/functions";']
+        : []),
+      ...typeImports,
+    ]
+      .concat(fns.join("\n\n"))
+      .join("\n"),
+    { parser: format === "ts" ? "typescript" : "babel" }
+  );
+}
+
+/**
+ * Generates the type imports source code, grouped by the module.
+ *
+ * @param callables - the callables list
+ * @returns the type imports lines
+ */
+function stringifyTypeImports(callables: FiremynaCallable[]): string[] {
+  const modules = new Map<string, Set<string>>();
+  const namespaces: string[] = [];
+
+  callables.forEach(({ imports }) =>
+    imports.forEach(({ imported, local, from }) => {
+      if (imported === "*") {
+        namespaces.push(`import type * as ${local} from "${from}";`);
+        return;
+      }
+
+      const specifiers = modules.get(from) || new Set();
+      specifiers.add(imported === local ? local : `${imported} as ${local}`);
+      modules.set(from, specifiers);
+    })
+  );
+
+  return Array.from(modules.entries())
+    .map(
+      ([from, specifiers]) =>
+        `import type { ${Array.from(specifiers).join(", ")} } from "${from}";`
+    )
+    .concat(Array.from(new Set(namespaces)));
+}
+
+/**
+ * Unwraps the 2nd gen handler request type (`CallableRequest<Data>`) to
+ * the data type.
+ *
+ * @param node - the handler first parameter type node
+ * @returns the data type node
+ */
+function unwrapCallableRequest(
+  node: ts.TypeNode | undefined
+): ts.TypeNode | undefined {
+  if (
+    node &&
+    ts.isTypeReferenceNode(node) &&
+    ts.isIdentifier(node.typeName) &&
+    node.typeName.text === "CallableRequest"
+  )
+    return node.typeArguments?.[0];
+  return node;
+}
+
+/**
+ * Finds the exported expression: the default export or the exported variable
+ * initializer.
+ *
+ * @param sourceFile - the source file
+ * @param exportName - the export name
+ * @returns the exported expression if found
+ */
+function findExportExpression(
+  sourceFile: ts.SourceFile,
+  exportName: string
+): ts.Expression | undefined {
+  if (exportName === "default")
+    return sourceFile.statements.find(ts.isExportAssignment)?.expression;
+
+  for (const statement of sourceFile.statements) {
+    if (
+      !ts.isVariableStatement(statement) ||
+      !ts
+        .getModifiers(statement)
+        ?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword)
+    )
+      continue;
+
+    const declaration = statement.declarationList.declarations.find(
+      (decl) => ts.isIdentifier(decl.name) && decl.name.text === exportName
+    );
+    if (declaration) return declaration.initializer;
+  }
+}
+
+/**
+ * Function-like node that can be a callable handler.
+ */
+type HandlerNode =
+  | ts.ArrowFunction
+  | ts.FunctionExpression
+  | ts.FunctionDeclaration;
+
+/**
+ * Finds the callable handler in the default export expression.
+ *
+ * @param sourceFile - the source file
+ * @param expression - the default export expression
+ * @returns the handler node if the expression is a callable
+ */
+function findCallableHandler(
+  sourceFile: ts.SourceFile,
+  expression: ts.Expression
+): HandlerNode | undefined {
+  if (!ts.isCallExpression(expression)) return;
+
+  const callee = expression.expression;
+  const calleeName = ts.isPropertyAccessExpression(callee)
+    ? callee.name.text
+    : ts.isIdentifier(callee)
+    ? callee.text
+    : undefined;
+  if (calleeName !== "onCall") return;
+
+  // The handler is always the last argument
+  const arg = expression.arguments[expression.arguments.length - 1];
+  if (!arg) return;
+
+  if (ts.isArrowFunction(arg) || ts.isFunctionExpression(arg)) return arg;
+  if (ts.isIdentifier(arg)) return findHandlerDeclaration(sourceFile, arg.text);
+}
+
+/**
+ * Finds the top-level handler declaration by the name.
+ *
+ * @param sourceFile - the source file
+ * @param name - the handler name
+ * @returns the handler node if found
+ */
+function findHandlerDeclaration(
+  sourceFile: ts.SourceFile,
+  name: string
+): HandlerNode | undefined {
+  for (const statement of sourceFile.statements) {
+    if (ts.isFunctionDeclaration(statement) && statement.name?.text === name)
+      return statement;
+
+    if (ts.isVariableStatement(statement)) {
+      const declaration = statement.declarationList.declarations.find(
+        (decl) => ts.isIdentifier(decl.name) && decl.name.text === name
+      );
+      const init = declaration?.initializer;
+      if (init && (ts.isArrowFunction(init) || ts.isFunctionExpression(init)))
+        return init;
+    }
+  }
+}
+
+/**
+ * Stringifies the type node and collects the imports of the referenced types.
+ *
+ * @param sourceFile - the source file
+ * @param path - the function source path
+ * @param node - the type node
+ * @param imports - the imports list to add the found imports to
+ * @returns the type source code
+ */
+function stringifyTypeNode(
+  sourceFile: ts.SourceFile,
+  path: string,
+  node: ts.TypeNode,
+  imports: FiremynaCallableImport[]
+): string {
+  const visit = (child: ts.Node) => {
+    const name = ts.isTypeReferenceNode(child)
+      ? leftmostIdentifier(child.typeName)
+      : ts.isTypeQueryNode(child)
+      ? leftmostIdentifier(child.exprName)
+      : undefined;
+
+    if (name && !imports.some((imp) => imp.local === name)) {
+      const imp = findTypeImport(sourceFile, path, name);
+      imp && imports.push(imp);
+    }
+
+    ts.forEachChild(child, visit);
+  };
+
+  visit(node);
+
+  return node.getText(sourceFile);
+}
+
+/**
+ * Finds where the type referenced by the name comes from. If it's imported
+ * into the function file, it reuses the import. If it's declared in the
+ * function file, it imports it from the function file (so it has to be
+ * exported). Global types require no import.
+ *
+ * @param sourceFile - the source file
+ * @param path - the function source path
+ * @param name - the referenced name
+ * @returns the import if the name requires it
+ */
+function findTypeImport(
+  sourceFile: ts.SourceFile,
+  path: string,
+  name: string
+): FiremynaCallableImport | undefined {
+  for (const statement of sourceFile.statements) {
+    if (
+      ts.isImportDeclaration(statement) &&
+      ts.isStringLiteral(statement.moduleSpecifier)
+    ) {
+      const from = statement.moduleSpecifier.text;
+      const clause = statement.importClause;
+      if (!clause) continue;
+
+      if (clause.name?.text === name)
+        return { imported: "default", local: name, from };
+
+      const bindings = clause.namedBindings;
+      if (bindings && ts.isNamespaceImport(bindings)) {
+        if (bindings.name.text === name)
+          return { imported: "*", local: name, from };
+      } else if (bindings) {
+        const specifier = bindings.elements.find((el) => el.name.text === name);
+        if (specifier)
+          return {
+            imported: specifier.propertyName?.text || name,
+            local: name,
+            from,
+          };
+      }
+    } else if (
+      (ts.isInterfaceDeclaration(statement) ||
+        ts.isTypeAliasDeclaration(statement) ||
+        ts.isClassDeclaration(statement) ||
+        ts.isEnumDeclaration(statement)) &&
+      statement.name?.text === name
+    ) {
+      return { imported: name, local: name, from: `./${basenameNoExt(path)}` };
+    }
+  }
+}
+
+/**
+ * Returns the leftmost identifier of a qualified name (i.e. `a` in `a.b.c`).
+ *
+ * @param name - the entity name
+ * @returns the leftmost identifier text
+ */
+function leftmostIdentifier(name: ts.EntityName): string {
+  return ts.isIdentifier(name) ? name.text : leftmostIdentifier(name.left);
+}
+
+/**
+ * Returns the file name without the extension.
+ *
+ * @param path - the file path
+ * @returns the import-friendly file name
+ */
+function basenameNoExt(path: string): string {
+  return basename(path, extname(path));
+}
@@ -0,0 +1,193 @@
+import { parseCallable, stringifyCallablesClient } from ".";
+import { describe, it, expect } from "vitest";
+
+describe("client", () => {
+  describe("parseCallable", () => {
+    it("parses the data and result types of a callable", () => {
+      const result = parseCallable(
+        "hello",
+        "functions/hello.ts",
+        `import * as functions from "firebase-functions";
+import type { HelloInput, HelloOutput as Output } from "../shared/hello";
+
+export default functions.https.onCall(
+  async (data: HelloInput, context): Promise<Output> => {
+    return { message: "Hi!" };
+  }
+);
+`
+      );
+
+      expect(result).toEqual({
+        name: "hello",
+        dataType: "HelloInput",
+        resultType: "Promise<Output>",
+        imports: [
+          {
+            imported: "HelloInput",
+            local: "HelloInput",
+            from: "../shared/hello",
+          },
+          { imported: "HelloOutput", local: "Output", from: "../shared/hello" },
+        ],
+      });
+    });
+
+    it("imports the types declared in the function file from it", () => {
+      const result = parseCallable(
+        "hello",
+        "functions/hello.ts",
+        `import * as functions from "firebase-functions";
+
+export interface Input {
+  name: string;
+}
+
+function handler(data: Input): string {
+  return "Hi, " + data.name;
+}
+
+export default functions.https.onCall(handler);
+`
+      );
+
+      expect(result).toEqual({
+        name: "hello",
+        dataType: "Input",
+        resultType: "string",
+        imports: [{ imported: "Input", local: "Input", from: "./hello" }],
+      });
+    });
+
+    it("falls back to unknown when the types are not specified", () => {
+      const result = parseCallable(
+        "hello",
+        "functions/hello.js",
+        `import functions from "firebase-functions";
+
+export default functions.https.onCall((data, context) => {
+  return "Hi!";
+});
+`
+      );
+
+      expect(result).toEqual({
+        name: "hello",
+        dataType: "unknown",
+        resultType: "unknown",
+        imports: [],
+      });
+    });
+
+    it("parses the named export callables", () => {
+      const result = parseCallable(
+        "users-greet",
+        "functions/users.ts",
+        `import * as functions from "firebase-functions";
+
+export const greet = functions.https.onCall((data: string): string => {
+  return "Hi, " + data;
+});
+`,
+        "greet"
+      );
+
+      expect(result).toEqual({
+        name: "users-greet",
+        dataType: "string",
+        resultType: "string",
+        imports: [],
+      });
+    });
+
+    it("unwraps the 2nd gen callable request type", () => {
+      const result = parseCallable(
+        "hello",
+        "functions/hello.ts",
+        `import { onCall, type CallableRequest } from "firebase-functions/v2/https";
+
+export default onCall(
+  { concurrency: 10 },
+  (request: CallableRequest<string>): string => "Hi, " + request.data
+);
+`
+      );
+
+      expect(result).toEqual({
+        name: "hello",
+        dataType: "string",
+        resultType: "string",
+        imports: [],
+      });
+    });
+
+    it("ignores non-callable functions", () => {
+      const result = parseCallable(
+        "hello",
+        "functions/hello.ts",
+        `import * as functions from "firebase-functions";
+
+export default functions.https.onRequest((request, response) => {
+  response.send("Hi!");
+});
+`
+      );
+
+      expect(result).toBeUndefined();
+    });
+  });
+
+  describe("stringifyCallablesClient", () => {
+    it("generates the typed client", async () => {
+      const result = await stringifyCallablesClient(
+        [
+          {
+            name: "hello",
+            dataType: "HelloInput",
+            resultType: "Promise<string>",
+            imports: [
+              { imported: "HelloInput", local: "HelloInput", from: "./shared" },
+            ],
+          },
+        ],
+        "ts"
+      );
+
+      expect(result)
+        .toBe(`// This file is generated by Firemyna, do not edit it manually.
+
+import { getFunctions, httpsCallable } from "firebase/functions";
+import type { Functions } from "firebase/functions";
+import type { HelloInput } from "./shared";
+
+export function hello(
+  data: HelloInput,
+  functions: Functions = getFunctions(),
+): Promise<Awaited<Promise<string>>> {
+  return httpsCallable<HelloInput, Awaited<Promise<string>>>(
+    functions,
+    "hello",
+  )(data).then((result) => result.data);
+}
+`);
+    });
+
+    it("fails when the client function names collide", async () => {
+      const callable = (name: string) => ({
+        name,
+        dataType: "unknown",
+        resultType: "unknown",
+        imports: [],
+      });
+
+      await expect(
+        stringifyCallablesClient(
+          [callable("billing-charge"), callable("billing_charge")],
+          "ts"
+        )
+      ).rejects.toThrow(
+        "The functions billing-charge and billing_charge have the same client function name billing_charge"
+      );
+    });
+  });
+});
@@ -1,18 +1,34 @@
-import { transform } from "esbuild";
-import { readFile, rm, writeFile } from "fs/promises";
-import { isAbsolute, parse, relative, resolve } from "path";
+import { build, Loader, Plugin } from "esbuild";
+import { access } from "fs/promises";
+import Module from "module";
+import { dirname, isAbsolute, parse, relative, resolve } from "path";
+import { FiremynaAppEnv } from "../app";
+import { FiremynaBuildMode } from "../build";
+import { resolvePlugin } from "../esbuild/resolve";
+import { FirebaseMemoryOption, FirebaseRegion } from "../firebase/exports";
 import { FiremynaPreset } from "../presets";
 import { getConfigFileName } from "./paths";
+import { configIssuesError, validateConfig } from "./validate";
 
 /**
  * The Firebase Functions Node.js version.
  */
-export type FiremynaFunctionsNode = "14" | "16" | "18";
+export type FiremynaFunctionsNode = "14" | "16" | "18" | "20" | "22";
 
 /**
  * The default Node.js version.
  */
-export const defaultNode = "18";
+export const defaultNode = "20";
+
+/**
+ * The Firebase Functions generation.
+ */
+export type FiremynaFunctionsGen = 1 | 2;
+
+/**
+ * The functions build output format.
+ */
+export type FiremynaOutputFormat = "cjs" | "esm";
 
 /**
  * The source code format.
@@ -37,25 +53,32 @@ export interface FiremynaConfigResolved {
   node: FiremynaFunctionsNode;
   /** The source code format; the default format is js */
   format: FiremynaFormat;
+  /** The functions generation used by the generators; default - 1 */
+  gen?: FiremynaFunctionsGen;
   /** The config preset */
   preset?: FiremynaPreset;
   /** The path (relative to the config) to the functions directory */
   functionsPath?: string;
   /** The functions build path */
   buildPath?: string;
-  /** The functions to build */
+  /** The functions to build, either function names (`billing.charge`) or
+   * groups (`billing`) */
   onlyFunctions?: string[];
   /** Specify functions ignore patterns */
   functionsIgnorePaths?: RegExp[];
   /** The init module path (relative to the config) */
   functionsInitPath?: string;
+  /** Deploy the named exports of function files without default export as
+   * separate functions, prefixed with the file name (i.e. `users-onCreate`) */
+  functionsNamedExports?: boolean;
   /** The Functions runtime config path. [See Firebase docs](https://firebase.google.com/docs/functions/local-emulator#set_up_functions_configuration_optional).
    * @deprecated - this is an outdated approach, use env variables. [See Firebase docs](https://firebase.google.com/docs/functions/config-env#env-variables). */
   functionsRuntimeConfigPath?: string;
   /** Emulators config, if not defined, Functions will start in serve mode. */
   emulators?: FiremynaConfigEmulators;
-  /** Enable hosting. TODO: Copy static files. */
-  hosting?: boolean;
+  /** The Hosting config, or the sites config to deploy multiple sites using
+   * the Hosting targets. Enabled by default, set false to disable it. */
+  hosting?: boolean | FiremynaConfigHosting | FiremynaConfigHostingSite[];
   /** The Storage config. */
   storage?: boolean | FiremynaConfigStorage;
   /** The Firestore config. */
@@ -63,7 +86,164 @@ export interface FiremynaConfigResolved {
   /** The option enables npm packages optimization (defaults to false).
    * It scans the build code and removes unused dependencies. */
   optimizePackages?: boolean;
+  /** Generate the deployed package.json from the packages imported by
+   * the functions bundles instead of copying the project one. The versions
+   * are taken from the lockfile. Takes precedence over `optimizePackages`. */
+  minimalPackage?: boolean;
+  /** The packages to keep in the deployed package.json even if not imported
+   * statically (i.e. required dynamically) */
+  keepDependencies?: string[];
   deploy?: FiremynaConfigDeploy;
+  /** The typed callables client config. When enabled, the client is
+   * regenerated in the development mode on every function change. */
+  client?: boolean | FiremynaConfigClient;
+  /** The functions config. */
+  functions?: FiremynaConfigFunctions;
+  /** The build output config. */
+  output?: FiremynaConfigOutput;
+  /** The compile-time constants, the keys are replaced with the JavaScript
+   * expressions (i.e. `{ VERSION: JSON.stringify("1.2.3") }`) in the functions
+   * code. The built-in `FIREMYNA_APP_ENV`, `FIREMYNA_MODE` and
+   * `FIREMYNA_PROJECT` constants are always defined. */
+  define?: Record<string, string>;
+  /** The esbuild options merged into every functions build: the functions,
+   * the init, the index and the renderer. */
+  esbuild?: FiremynaConfigEsbuild;
+}
+
+/**
+ * The esbuild options passed through to the functions builds.
+ */
+export interface FiremynaConfigEsbuild {
+  /** The esbuild plugins, run before the Firemyna dependencies resolver */
+  plugins?: Plugin[];
+  /** The loaders by the file extension (i.e. `{ ".graphql": "text" }`) */
+  loader?: Record<string, Loader>;
+  /** The import paths substitutions (i.e. `{ "~": "./src" }`), the relative
+   * paths are resolved against the working directory */
+  alias?: Record<string, string>;
+  /** The packages to exclude from the bundles */
+  external?: string[];
+  /** The code prepended to every built file */
+  banner?: string;
+  /** The code appended to every built file */
+  footer?: string;
+  /** The path to the tsconfig.json, used for the `paths` resolution */
+  tsconfig?: string;
+}
+
+/**
+ * The Firemyna build output config.
+ */
+export interface FiremynaConfigOutput {
+  /** The functions build format. With esm, the functions are built as `.mjs`
+   * ES modules and the package.json gets `type: "module"`. Defaults to cjs */
+  format?: FiremynaOutputFormat;
+  /** Minify the functions code, either fully or only the selected parts.
+   * Defaults to false */
+  minify?: boolean | FiremynaOutputMinify;
+  /** Keep the function and class names when minifying, so the stack traces
+   * stay readable. Defaults to false */
+  keepNames?: boolean;
+  /** The source maps mode. Defaults to external */
+  sourcemap?: FiremynaOutputSourcemap;
+}
+
+/**
+ * The selected minifications.
+ */
+export interface FiremynaOutputMinify {
+  /** Shorten the local identifiers */
+  identifiers?: boolean;
+  /** Remove the whitespace */
+  whitespace?: boolean;
+  /** Rewrite the syntax to be more compact */
+  syntax?: boolean;
+}
+
+/**
+ * The source maps mode: no source maps, the `.map` files next to the built
+ * files or the maps inlined into the built files.
+ */
+export type FiremynaOutputSourcemap = "none" | "external" | "inline";
+
+/**
+ * The Firemyna functions config.
+ */
+export interface FiremynaConfigFunctions {
+  /** The project default runtime options used by the generators */
+  defaults?: FiremynaFunctionsDefaults;
+  /** Apply the defaults at the build time through the functions index
+   * (using `setGlobalOptions`) instead of generating them into the code.
+   * Only 2nd gen functions inherit them as 1st gen has no global options. */
+  applyDefaults?: boolean;
+  /** The per-function overrides keyed by the function id (`billing.charge`)
+   * or glob (`billing.*`, `**`). When multiple keys match, the later
+   * overrides win. */
+  overrides?: Record<string, FiremynaFunctionOverride>;
+  /** Build all functions in a single pass with code splitting, so the modules
+   * shared between the functions are emitted once as chunks instead of being
+   * bundled into every function. The functions with build overrides are
+   * still built separately. Defaults to false */
+  splitting?: boolean;
+  /** The bundle size budgets keyed by the function id or glob like
+   * the overrides. The value is the size in bytes or a string like `200KB`
+   * or `1.5MB`. The build fails if a function bundle exceeds its budget */
+  budgets?: Record<string, number | string>;
+}
+
+/**
+ * The per-function build and deploy options.
+ */
+export interface FiremynaFunctionOverride {
+  /** The Node.js version to target when building the function */
+  node?: FiremynaFunctionsNode;
+  /** The extra packages to leave external */
+  external?: string[];
+  /** The esbuild define replacements */
+  define?: Record<string, string>;
+  /** Minify the function code */
+  minify?: boolean;
+  /** Bundle the node_modules dependencies into the function code instead of
+   * requiring them at runtime. Defaults to false */
+  bundleNodeModules?: boolean;
+  /** The deploy region or regions */
+  region?: FirebaseRegion | FirebaseRegion[];
+  /** The deploy memory */
+  memory?: FirebaseMemoryOption;
+  /** The deploy timeout in seconds */
+  timeoutSeconds?: number;
+  /** The minimum number of instances to keep warm */
+  minInstances?: number;
+  /** The maximum number of instances */
+  maxInstances?: number;
+}
+
+/**
+ * The functions default runtime options.
+ */
+export interface FiremynaFunctionsDefaults {
+  /** The function region or regions */
+  region?: FirebaseRegion | FirebaseRegion[];
+  /** The function memory */
+  memory?: FirebaseMemoryOption;
+  /** The function timeout in seconds */
+  timeoutSeconds?: number;
+  /** The minimum number of instances to keep warm */
+  minInstances?: number;
+  /** The secrets to expose to the function */
+  secrets?: string[];
+  /** The service account to run the function as */
+  serviceAccount?: string;
+}
+
+/**
+ * The Firemyna typed callables client config.
+ */
+export interface FiremynaConfigClient {
+  /** The path (relative to the config) to the generated client module.
+   * Defaults to `callables.ts` (or `.js`) next to the functions directory. */
+  path?: string;
 }
 
 /**
@@ -75,6 +255,87 @@ export interface FiremynaConfigDeploy {
   force?: boolean;
 }
 
+/**
+ * The Firemyna Hosting config, merged into the firebase.json `hosting`.
+ */
+export interface FiremynaConfigHosting {
+  /** The path (relative to the config) to the static files, copied to
+   * the Hosting build directory on build and synced while the development
+   * server is running. Can't be used with the presets */
+  publicPath?: string;
+  /** Add the content hash to the static files names on build (i.e. `app.js`
+   * → `app.3f2a1b9c.js`), update the references in the HTML and CSS files
+   * and write the `asset-manifest.json`. The HTML files are not hashed.
+   * Defaults to false */
+  hashAssets?: boolean;
+  /** The globs (relative to the public path) of the files to keep the names
+   * of when hashing (i.e. `["robots.txt", "favicon.ico"]`) */
+  hashExclude?: string[];
+  /** Serve the `.html` files without the extension (i.e. `/about` serves
+   * `about.html`) and redirect the `.html` URLs to the clean ones */
+  cleanUrls?: boolean;
+  /** Add (true) or remove (false) the trailing slash of the URLs */
+  trailingSlash?: boolean;
+  /** The response headers */
+  headers?: FiremynaHostingHeaders[];
+  /** The redirects */
+  redirects?: FiremynaHostingRedirect[];
+  /** The rewrites, applied before the renderer rewrite */
+  rewrites?: FiremynaHostingRewrite[];
+}
+
+/**
+ * The Hosting site config, deployed using the Hosting target.
+ */
+export interface FiremynaConfigHostingSite extends FiremynaConfigHosting {
+  /** The Hosting target name (i.e. `app`), deploy the site with
+   * `--only hosting:app` */
+  target: string;
+  /** The Hosting site id (i.e. `acme-app`) or the site ids by the project
+   * alias from .firebaserc (i.e. `{ default: "acme-app", staging: "acme-app-staging" }`) */
+  site: string | Record<string, string>;
+  /** The command building the site, run in the working directory with
+   * the `BUILD_PATH` env variable set to the site build directory. The public
+   * path files are copied after the command completes */
+  command?: string;
+}
+
+/**
+ * The Hosting response headers.
+ */
+export interface FiremynaHostingHeaders {
+  /** The URL glob (i.e. `**\/*.@(js|css)`) */
+  source: string;
+  /** The headers to set (i.e. `{ "Cache-Control": "max-age=31536000" }`) */
+  headers: Record<string, string>;
+}
+
+/**
+ * The Hosting redirect.
+ */
+export interface FiremynaHostingRedirect {
+  /** The URL glob (i.e. `/blog/:slug`) */
+  source: string;
+  /** The URL to redirect to (i.e. `/posts/:slug`) */
+  destination: string;
+  /** The redirect status code. Defaults to 301 */
+  type?: 301 | 302;
+}
+
+/**
+ * The Hosting rewrite, either to a path or to a function.
+ */
+export interface FiremynaHostingRewrite {
+  /** The URL glob (i.e. `/api/**`) */
+  source: string;
+  /** The path to serve (i.e. `/index.html`) */
+  destination?: string;
+  /** The function id (i.e. `api` or `billing.webhook`) */
+  function?: string;
+  /** The function region. Defaults to us-central1 */
+  region?: FirebaseRegion;
+}
+
 /**
  * The Firemyna Storage config.
  */
@@ -89,6 +350,8 @@ export interface FiremynaConfigStorage {
 export interface FiremynaConfigFirestore {
   /** The path (relative to the config) to the Firestore security rules. Defaults to `storage.rules`. */
   rulesPath?: string;
+  /** The path (relative to the config) to the Firestore indexes, either firestore.indexes.json or a TypeScript/JavaScript module that default exports the `defineFirestoreIndexes` result. */
+  indexesPath?: string;
 }
 
 /**
@@ -162,102 +425,209 @@ export interface FiremynaConfigEmulators {
       };
 }
 
+/**
+ * The environment passed to the config factory.
+ */
+export interface FiremynaConfigEnv {
+  /** Firemyna build mode */
+  mode: FiremynaBuildMode;
+  /** The app environment */
+  appEnv: FiremynaAppEnv;
+  /** The Firebase project alias */
+  project: string | undefined;
+}
+
+/**
+ * The config factory, allows to generate the config depending on the
+ * environment.
+ */
+export type FiremynaConfigFactory = (
+  env: FiremynaConfigEnv
+) => FiremynaConfig | Promise<FiremynaConfig>;
+
+/**
+ * The config module export, either the config object or the config factory.
+ */
+export type FiremynaConfigExport = FiremynaConfig | FiremynaConfigFactory;
+
+/**
+ * Defines the Firemyna config. The function does nothing but provides types
+ * for the config object or the config factory.
+ * @param config - the config object or the config factory
+ * @returns the passed config
+ */
+export function defineConfig(config: FiremynaConfig): FiremynaConfig;
+
+export function defineConfig(
+  factory: FiremynaConfigFactory
+): FiremynaConfigFactory;
+
+export function defineConfig(config: FiremynaConfigExport) {
+  return config;
+}
+
+/**
+ * The loaded Firemyna config.
+ */
+export interface FiremynaLoadedConfig {
+  /** The Firemyna config */
+  config: FiremynaConfig;
+  /** The config path relative to the working directory */
+  path: string;
+}
+
 /**
  * Loads the Firemyna config from the default location or the specified path.
+ *
+ * The config is bundled with esbuild (so it can import local TS/JS modules)
+ * and evaluated in memory. The config module can export the config or the
+ * config factory either as the default export or as `config`.
+ *
+ * The config is validated against the schema, if it's invalid, the function
+ * throws an error listing all found problems.
  * @param cwd - the current working directory
  * @param configPath - the custom config path
+ * @param env - the environment passed to the config factory
  * @returns the Firemyna config if found
  */
 export async function loadConfig(
   cwd: string,
-  configPath: string | undefined
-): Promise<FiremynaConfig | undefined> {
-  const configInfo = configPath
-    ? await readConfigFromPath(cwd, configPath)
-    : await tryReadAnyConfig(cwd);
+  configPath: string | undefined,
+  env: FiremynaConfigEnv
+): Promise<FiremynaLoadedConfig | undefined> {
+  const location = configPath
+    ? await findConfigFromPath(cwd, configPath)
+    : await tryFindAnyConfig(cwd);
 
-  if (!configInfo) return;
-
-  const source = await transform(configInfo.source, {
-    format: "cjs",
-    loader: "ts",
-  });
-  const tmpPath = resolve(process.cwd(), `firemyna.config.${Date.now()}.cjs`);
-  await writeFile(tmpPath, source.code);
+  if (!location) return;
 
+  let config: FiremynaConfig;
   try {
-    const { config } = await import(tmpPath);
-    await rm(tmpPath);
-    return config;
+    const configExport = await importConfig(resolve(cwd, location.path));
+    config =
+      typeof configExport === "function"
+        ? await configExport(env)
+        : configExport;
   } catch (error) {
-    console.warn(
-      `Failed to load the config file located at ${configInfo.path}`
+    throw new Error(
+      `Failed to load the config file located at ${location.path}: ${
+        error instanceof Error ? error.message : error
+      }`
     );
-    console.warn(error);
-    await rm(tmpPath, { force: true });
   }
+
+  const issues = validateConfig(config);
+  if (issues.length) throw configIssuesError(location.path, issues);
+
+  return { config, path: location.path };
 }
 
 /**
- * The config reading result.
+ * Bundles and evaluates the config module.
+ * @param path - the absolute config path
+ * @returns promise to the config module export
  */
-interface ConfigReadingResult {
+async function importConfig(path: string): Promise<FiremynaConfigExport> {
+  const configModule = await importModule<{
+    default?: FiremynaConfigExport;
+    config?: FiremynaConfigExport;
+  }>(path);
+  const configExport = configModule.default ?? configModule.config;
+  if (!configExport)
+    throw new Error("The config module must export default or config");
+
+  return configExport;
+}
+
+/**
+ * Bundles the module with esbuild (so it can import local TS/JS modules) and
+ * evaluates it in memory. The packages are resolved from the module directory.
+ * @param path - the absolute module path
+ * @returns promise to the module exports
+ */
+export async function importModule<Exports = unknown>(
+  path: string
+): Promise<Exports> {
+  const result = await build({
+    entryPoints: [path],
+    bundle: true,
+    platform: "node",
+    target: `node${process.versions.node}`,
+    format: "cjs",
+    plugins: [resolvePlugin()],
+    write: false,
+    logLevel: "silent",
+  });
+
+  const source = result.outputFiles[0]?.text || "";
+  const configModule = new Module(path, module);
+  configModule.filename = path;
+  // @ts-ignore: the private API allows to resolve packages from the config dir
+  configModule.paths = Module._nodeModulePaths(dirname(path));
+  // @ts-ignore: the private API allows to evaluate the module from memory
+  configModule._compile(source, path);
+
+  return configModule.exports;
+}
+
+/**
+ * The config location.
+ */
+interface ConfigLocation {
   /** The config format */
   format: FiremynaFormat;
-  /** The config source code */
-  source: string;
   /** The config path */
   path: string;
 }
 
 /**
- * Reads the Firemyna config from the specified path.
+ * Finds the Firemyna config at the specified path.
  * @param cwd - the working directory
  * @param configPath - the config path
- * @returns the config reading result
+ * @returns the config location
  */
-export async function readConfigFromPath(
+export async function findConfigFromPath(
   cwd: string,
   configPath: string
-): Promise<ConfigReadingResult> {
+): Promise<ConfigLocation> {
   const format = parse(configPath).ext === ".ts" ? "ts" : "js";
   try {
     const normalizedPath = isAbsolute(configPath)
       ? relative(cwd, configPath)
       : configPath;
-    const source = await readFile(resolve(cwd, normalizedPath), "utf-8");
-    return { format, path: normalizedPath, source };
+    await access(resolve(cwd, normalizedPath));
+    return { format, path: normalizedPath };
   } catch (error) {
     throw new Error(`Failed to read the config file located at ${configPath}`);
   }
 }
 
 /**
- * Tries to read the Firemyna config from the default location.
+ * Tries to find the Firemyna config at the default location.
  * @param cwd - the working directory
- * @returns the config reading result if found
+ * @returns the config location if found
  */
-export async function tryReadAnyConfig(
+export async function tryFindAnyConfig(
   cwd: string
-): Promise<ConfigReadingResult | undefined> {
-  return tryReadConfig(cwd, "ts")
-    .catch(() => tryReadConfig(cwd, "js"))
+): Promise<ConfigLocation | undefined> {
+  return tryFindConfig(cwd, "ts")
+    .catch(() => tryFindConfig(cwd, "js"))
     .catch(() => undefined); // Ignore it
 }
 
 /**
- * Tries to read the Firemyna config of the given format.
+ * Tries to find the Firemyna config of the given format.
  * @param cwd - the working directory
  * @param format - the config format
- * @returns the config reading result
+ * @returns the config location
  */
-export async function tryReadConfig(
+export async function tryFindConfig(
   cwd: string,
   format: FiremynaFormat
-): Promise<ConfigReadingResult> {
+): Promise<ConfigLocation> {
   const path = getConfigFileName(format);
-  const source = await readFile(resolve(cwd, path), "utf-8");
-  return { format, path, source };
+  await access(resolve(cwd, path));
+  return { format, path };
 }
 
 /**
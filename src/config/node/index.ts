@@ -0,0 +1,69 @@
+/**
+ * @module config/node
+ *
+ * The Firemyna config Node.js module - the Functions runtime versions and
+ * their support status.
+ */
+
+import { FiremynaFunctionsNode } from "../../config";
+
+/**
+ * The Firebase Functions Node.js versions.
+ */
+export const functionsNodeVersions: FiremynaFunctionsNode[] = [
+  "14",
+  "16",
+  "18",
+  "20",
+  "22",
+];
+
+/**
+ * The Node.js versions decommissioned by Firebase. The functions using them
+ * can't be deployed anymore.
+ */
+export const decommissionedNodeVersions: FiremynaFunctionsNode[] = ["14", "16"];
+
+/**
+ * Generates the warning if the Node.js version is decommissioned.
+ *
+ * @param node - the Functions Node.js version
+ * @returns the warning message if the version is decommissioned
+ */
+export function nodeDeprecationWarning(
+  node: FiremynaFunctionsNode
+): string | undefined {
+  if (decommissionedNodeVersions.includes(node))
+    return `The Node.js ${node} runtime is decommissioned by Firebase, the functions can't be deployed with it. Set the node option to one of ${supportedNodeVersions().join(
+      ", "
+    )}`;
+}
+
+/**
+ * Generates the warning if the local Node.js major version doesn't match
+ * the Functions Node.js version.
+ *
+ * @param node - the Functions Node.js version
+ * @param localVersion - the local Node.js version; defaults to the current
+ * process version
+ * @returns the warning message if the versions don't match
+ */
+export function localNodeWarning(
+  node: FiremynaFunctionsNode,
+  localVersion = process.versions.node
+): string | undefined {
+  const localMajor = localVersion.split(".")[0];
+  if (localMajor !== node)
+    return `The local Node.js version ${localVersion} doesn't match the Functions Node.js ${node} runtime, the emulated functions might behave differently when deployed`;
+}
+
+/**
+ * Lists the Node.js versions that are not decommissioned.
+ *
+ * @returns the supported Node.js versions
+ */
+function supportedNodeVersions(): FiremynaFunctionsNode[] {
+  return functionsNodeVersions.filter(
+    (node) => !decommissionedNodeVersions.includes(node)
+  );
+}
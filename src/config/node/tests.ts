@@ -0,0 +1,29 @@
+import { localNodeWarning, nodeDeprecationWarning } from ".";
+import { describe, it, expect } from "vitest";
+
+describe("config/node", () => {
+  describe("nodeDeprecationWarning", () => {
+    it("warns about decommissioned runtimes", () => {
+      expect(nodeDeprecationWarning("16")).toBe(
+        "The Node.js 16 runtime is decommissioned by Firebase, the functions can't be deployed with it. Set the node option to one of 18, 20, 22"
+      );
+    });
+
+    it("returns undefined for supported runtimes", () => {
+      expect(nodeDeprecationWarning("20")).toBeUndefined();
+      expect(nodeDeprecationWarning("22")).toBeUndefined();
+    });
+  });
+
+  describe("localNodeWarning", () => {
+    it("warns if the local major version doesn't match", () => {
+      expect(localNodeWarning("22", "20.11.1")).toBe(
+        "The local Node.js version 20.11.1 doesn't match the Functions Node.js 22 runtime, the emulated functions might behave differently when deployed"
+      );
+    });
+
+    it("returns undefined if the major versions match", () => {
+      expect(localNodeWarning("20", "20.11.1")).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,634 @@
+/**
+ * @module config/schema
+ *
+ * The Firemyna config JSON Schema. It's used to validate the config and to
+ * generate the published schema.json (see scripts/generateConfigSchema.ts).
+ */
+
+import { firebaseMemoryOptions, firebaseRegions } from "../../firebase/exports";
+import { functionsNodeVersions } from "../node";
+
+/**
+ * The JSON Schema subset used to describe the config.
+ */
+export interface FiremynaJSONSchema {
+  /** The value description */
+  description?: string;
+  /** The value type or types */
+  type?: FiremynaJSONSchemaType | FiremynaJSONSchemaType[];
+  /** The allowed values */
+  enum?: Array<string | number | boolean>;
+  /** The object properties */
+  properties?: Record<string, FiremynaJSONSchema>;
+  /** Set false to disallow unknown properties */
+  additionalProperties?: boolean | FiremynaJSONSchema;
+  /** The required object properties */
+  required?: string[];
+  /** The array items schema */
+  items?: FiremynaJSONSchema;
+  /** The list of schemas, one of which must match */
+  anyOf?: FiremynaJSONSchema[];
+  /** The minimum number value */
+  minimum?: number;
+  /** The maximum number value */
+  maximum?: number;
+  /** The class name the value must be an instance of (non-JSON values) */
+  instanceof?: "RegExp" | "Function";
+}
+
+/**
+ * The JSON Schema value type.
+ */
+export type FiremynaJSONSchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "object"
+  | "array";
+
+/**
+ * Generates the emulator config schema.
+ * @param name - the emulator name
+ * @param port - the emulator default port
+ * @returns the emulator config schema
+ */
+function emulatorSchema(name: string, port: number): FiremynaJSONSchema {
+  return {
+    description: `The ${name}. Set true or object to enable it.`,
+    anyOf: [
+      { type: "boolean" },
+      {
+        type: "object",
+        properties: {
+          port: {
+            description: `The ${name} port. Default - ${port}`,
+            ...portSchema,
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+  };
+}
+
+/**
+ * The port schema.
+ */
+const portSchema: FiremynaJSONSchema = {
+  type: "integer",
+  minimum: 1,
+  maximum: 65535,
+};
+
+/**
+ * The Functions region schema.
+ */
+const regionSchema: FiremynaJSONSchema = {
+  type: "string",
+  enum: firebaseRegions,
+};
+
+/**
+ * The Hosting config properties shared by the single site and the sites.
+ */
+const hostingProperties: Record<string, FiremynaJSONSchema> = {
+  publicPath: {
+    description:
+      "The path (relative to the config) to the static files, copied to the Hosting build directory",
+    type: "string",
+  },
+  hashAssets: {
+    description:
+      "Add the content hash to the static files names on build and write the asset manifest",
+    type: "boolean",
+  },
+  hashExclude: {
+    description:
+      "The globs (relative to the public path) of the files to keep the names of when hashing",
+    type: "array",
+    items: { type: "string" },
+  },
+  cleanUrls: {
+    description:
+      "Serve the .html files without the extension and redirect the .html URLs to the clean ones",
+    type: "boolean",
+  },
+  trailingSlash: {
+    description: "Add (true) or remove (false) the trailing slash of the URLs",
+    type: "boolean",
+  },
+  headers: {
+    description: "The response headers",
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        source: {
+          description: "The URL glob",
+          type: "string",
+        },
+        headers: {
+          description: "The headers to set",
+          type: "object",
+          additionalProperties: { type: "string" },
+        },
+      },
+      required: ["source", "headers"],
+      additionalProperties: false,
+    },
+  },
+  redirects: {
+    description: "The redirects",
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        source: {
+          description: "The URL glob",
+          type: "string",
+        },
+        destination: {
+          description: "The URL to redirect to",
+          type: "string",
+        },
+        type: {
+          description: "The redirect status code. Defaults to 301",
+          type: "integer",
+          enum: [301, 302],
+        },
+      },
+      required: ["source", "destination"],
+      additionalProperties: false,
+    },
+  },
+  rewrites: {
+    description: "The rewrites, applied before the renderer rewrite",
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        source: {
+          description: "The URL glob",
+          type: "string",
+        },
+        destination: {
+          description: "The path to serve",
+          type: "string",
+        },
+        function: {
+          description: "The function id",
+          type: "string",
+        },
+        region: {
+          description: "The function region. Defaults to us-central1",
+          ...regionSchema,
+        },
+      },
+      required: ["source"],
+      additionalProperties: false,
+    },
+  },
+};
+
+/**
+ * The esbuild loaders.
+ */
+const esbuildLoaders = [
+  "base64",
+  "binary",
+  "copy",
+  "css",
+  "dataurl",
+  "default",
+  "empty",
+  "file",
+  "js",
+  "json",
+  "jsx",
+  "text",
+  "ts",
+  "tsx",
+];
+
+/**
+ * The Firemyna config schema.
+ */
+export const configSchema: FiremynaJSONSchema = {
+  type: "object",
+  properties: {
+    node: {
+      description: "The Functions Node.js version",
+      type: "string",
+      enum: functionsNodeVersions,
+    },
+    format: {
+      description: "The source code format",
+      type: "string",
+      enum: ["ts", "js"],
+    },
+    gen: {
+      description: "The functions generation used by the generators",
+      type: "integer",
+      enum: [1, 2],
+    },
+    preset: {
+      description: "The config preset",
+      type: "string",
+      enum: ["astro", "cra", "vite", "remix", "next"],
+    },
+    functionsPath: {
+      description:
+        "The path (relative to the config) to the functions directory",
+      type: "string",
+    },
+    buildPath: {
+      description: "The functions build path",
+      type: "string",
+    },
+    onlyFunctions: {
+      description:
+        "The functions to build, either function names (billing.charge) or groups (billing)",
+      type: "array",
+      items: { type: "string" },
+    },
+    functionsIgnorePaths: {
+      description: "Specify functions ignore patterns",
+      type: "array",
+      items: { instanceof: "RegExp" },
+    },
+    functionsInitPath: {
+      description: "The init module path (relative to the config)",
+      type: "string",
+    },
+    functionsNamedExports: {
+      description:
+        "Deploy the named exports of function files without default export as separate functions",
+      type: "boolean",
+    },
+    functionsRuntimeConfigPath: {
+      description: "The Functions runtime config path (deprecated)",
+      type: "string",
+    },
+    emulators: {
+      description:
+        "Emulators config, if not defined, Functions will start in serve mode",
+      type: "object",
+      properties: {
+        persistence: {
+          description:
+            "The directory to save the emulators' data. Set false to disable the persistence",
+          type: ["boolean", "string"],
+        },
+        auth: emulatorSchema("Authentication emulator", 9099),
+        functions: emulatorSchema("Functions emulator", 5001),
+        firestore: emulatorSchema("Firestore emulator", 8080),
+        database: emulatorSchema("Realtime Database emulator", 9000),
+        hosting: emulatorSchema("Hosting emulator", 5000),
+        pubsub: emulatorSchema("Pub/Sub emulator", 8085),
+        storage: emulatorSchema("Storage emulator", 9199),
+        eventarc: emulatorSchema("Eventarc emulator", 9299),
+        ui: emulatorSchema("Emulator UI", 4000),
+      },
+      additionalProperties: false,
+    },
+    hosting: {
+      description:
+        "The Hosting config, or the sites config to deploy multiple sites using the Hosting targets. Enabled by default, set false to disable it",
+      anyOf: [
+        { type: "boolean" },
+        {
+          type: "object",
+          properties: hostingProperties,
+          additionalProperties: false,
+        },
+        {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              target: {
+                description: "The Hosting target name",
+                type: "string",
+              },
+              site: {
+                description:
+                  "The Hosting site id or the site ids by the project alias",
+                anyOf: [
+                  { type: "string" },
+                  { type: "object", additionalProperties: { type: "string" } },
+                ],
+              },
+              command: {
+                description:
+                  "The command building the site, run with the BUILD_PATH env variable set to the site build directory",
+                type: "string",
+              },
+              ...hostingProperties,
+            },
+            required: ["target", "site"],
+            additionalProperties: false,
+          },
+        },
+      ],
+    },
+    storage: {
+      description: "The Storage config",
+      anyOf: [
+        { type: "boolean" },
+        {
+          type: "object",
+          properties: {
+            rulesPath: {
+              description:
+                "The path (relative to the config) to the Storage security rules",
+              type: "string",
+            },
+          },
+          additionalProperties: false,
+        },
+      ],
+    },
+    firestore: {
+      description: "The Firestore config",
+      anyOf: [
+        { type: "boolean" },
+        {
+          type: "object",
+          properties: {
+            rulesPath: {
+              description:
+                "The path (relative to the config) to the Firestore security rules",
+              type: "string",
+            },
+            indexesPath: {
+              description:
+                "The path (relative to the config) to the Firestore indexes JSON or TypeScript/JavaScript module",
+              type: "string",
+            },
+          },
+          additionalProperties: false,
+        },
+      ],
+    },
+    optimizePackages: {
+      description: "Enables npm packages optimization",
+      type: "boolean",
+    },
+    minimalPackage: {
+      description:
+        "Generate the deployed package.json from the packages imported by the functions",
+      type: "boolean",
+    },
+    keepDependencies: {
+      description:
+        "The packages to keep in the deployed package.json even if not imported statically",
+      type: "array",
+      items: { type: "string" },
+    },
+    deploy: {
+      description: "The deploy config",
+      type: "object",
+      properties: {
+        force: {
+          description: "Force removal of deleted functions when deploying",
+          type: "boolean",
+        },
+      },
+      additionalProperties: false,
+    },
+    client: {
+      description: "The typed callables client config",
+      anyOf: [
+        { type: "boolean" },
+        {
+          type: "object",
+          properties: {
+            path: {
+              description:
+                "The path (relative to the config) to the generated client module",
+              type: "string",
+            },
+          },
+          additionalProperties: false,
+        },
+      ],
+    },
+    functions: {
+      description: "The functions config",
+      type: "object",
+      properties: {
+        defaults: {
+          description: "The project default runtime options",
+          type: "object",
+          properties: {
+            region: {
+              description: "The function region or regions",
+              anyOf: [regionSchema, { type: "array", items: regionSchema }],
+            },
+            memory: {
+              description: "The function memory",
+              type: "string",
+              enum: firebaseMemoryOptions,
+            },
+            timeoutSeconds: {
+              description: "The function timeout in seconds",
+              type: "integer",
+              minimum: 1,
+              maximum: 3600,
+            },
+            minInstances: {
+              description: "The minimum number of instances to keep warm",
+              type: "integer",
+              minimum: 0,
+            },
+            secrets: {
+              description: "The secrets to expose to the function",
+              type: "array",
+              items: { type: "string" },
+            },
+            serviceAccount: {
+              description: "The service account to run the function as",
+              type: "string",
+            },
+          },
+          additionalProperties: false,
+        },
+        applyDefaults: {
+          description:
+            "Apply the defaults at the build time through the functions index (2nd gen only)",
+          type: "boolean",
+        },
+        overrides: {
+          description:
+            "The per-function overrides keyed by the function id (billing.charge) or glob (billing.*)",
+          type: "object",
+          additionalProperties: {
+            type: "object",
+            properties: {
+              node: {
+                description: "The Node.js version to target",
+                type: "string",
+                enum: functionsNodeVersions,
+              },
+              external: {
+                description: "The extra packages to leave external",
+                type: "array",
+                items: { type: "string" },
+              },
+              define: {
+                description: "The esbuild define replacements",
+                type: "object",
+                additionalProperties: { type: "string" },
+              },
+              minify: {
+                description: "Minify the function code",
+                type: "boolean",
+              },
+              bundleNodeModules: {
+                description:
+                  "Bundle the node_modules dependencies into the function code",
+                type: "boolean",
+              },
+              region: {
+                description: "The deploy region or regions",
+                anyOf: [regionSchema, { type: "array", items: regionSchema }],
+              },
+              memory: {
+                description: "The deploy memory",
+                type: "string",
+                enum: firebaseMemoryOptions,
+              },
+              timeoutSeconds: {
+                description: "The deploy timeout in seconds",
+                type: "integer",
+                minimum: 1,
+                maximum: 3600,
+              },
+              minInstances: {
+                description: "The minimum number of instances to keep warm",
+                type: "integer",
+                minimum: 0,
+              },
+              maxInstances: {
+                description: "The maximum number of instances",
+                type: "integer",
+                minimum: 1,
+              },
+            },
+            additionalProperties: false,
+          },
+        },
+        splitting: {
+          description:
+            "Build all functions in a single pass with code splitting, emitting the shared modules as chunks",
+          type: "boolean",
+        },
+        budgets: {
+          description:
+            "The bundle size budgets keyed by the function id or glob, in bytes or a size like 200KB",
+          type: "object",
+          additionalProperties: {
+            type: ["integer", "string"],
+          },
+        },
+      },
+      additionalProperties: false,
+    },
+    output: {
+      description: "The build output config",
+      type: "object",
+      properties: {
+        format: {
+          description: "The functions build format",
+          type: "string",
+          enum: ["cjs", "esm"],
+        },
+        minify: {
+          description:
+            "Minify the functions code, either fully or only the selected parts",
+          anyOf: [
+            { type: "boolean" },
+            {
+              type: "object",
+              properties: {
+                identifiers: {
+                  description: "Shorten the local identifiers",
+                  type: "boolean",
+                },
+                whitespace: {
+                  description: "Remove the whitespace",
+                  type: "boolean",
+                },
+                syntax: {
+                  description: "Rewrite the syntax to be more compact",
+                  type: "boolean",
+                },
+              },
+              additionalProperties: false,
+            },
+          ],
+        },
+        keepNames: {
+          description: "Keep the function and class names when minifying",
+          type: "boolean",
+        },
+        sourcemap: {
+          description: "The source maps mode",
+          type: "string",
+          enum: ["none", "external", "inline"],
+        },
+      },
+      additionalProperties: false,
+    },
+    define: {
+      description:
+        "The compile-time constants replaced with the JavaScript expressions",
+      type: "object",
+      additionalProperties: { type: "string" },
+    },
+    esbuild: {
+      description: "The esbuild options merged into every functions build",
+      type: "object",
+      properties: {
+        plugins: {
+          description: "The esbuild plugins",
+          type: "array",
+          items: { type: "object" },
+        },
+        loader: {
+          description: "The loaders by the file extension",
+          type: "object",
+          additionalProperties: {
+            type: "string",
+            enum: esbuildLoaders,
+          },
+        },
+        alias: {
+          description: "The import paths substitutions",
+          type: "object",
+          additionalProperties: { type: "string" },
+        },
+        external: {
+          description: "The packages to exclude from the bundles",
+          type: "array",
+          items: { type: "string" },
+        },
+        banner: {
+          description: "The code prepended to every built file",
+          type: "string",
+        },
+        footer: {
+          description: "The code appended to every built file",
+          type: "string",
+        },
+        tsconfig: {
+          description: "The path to the tsconfig.json",
+          type: "string",
+        },
+      },
+      additionalProperties: false,
+    },
+  },
+  additionalProperties: false,
+};
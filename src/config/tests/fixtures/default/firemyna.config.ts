@@ -0,0 +1,7 @@
+import { defineConfig } from "../../../..";
+import { functionsPath } from "./shared";
+
+export default defineConfig({
+  format: "ts",
+  functionsPath,
+});
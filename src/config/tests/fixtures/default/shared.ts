@@ -0,0 +1 @@
+export const functionsPath: string = "src/functions";
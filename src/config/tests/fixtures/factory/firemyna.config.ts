@@ -0,0 +1,6 @@
+import type { FiremynaConfigEnv } from "../../..";
+
+export default async ({ mode, project }: FiremynaConfigEnv) => ({
+  format: mode === "dev" ? "ts" : "js",
+  onlyFunctions: project ? [project] : [],
+});
@@ -0,0 +1,3 @@
+export default {
+  emulators: { auth: { port: 0 } },
+};
@@ -0,0 +1,4 @@
+/** @type {import("../../..").FiremynaConfig } */
+export const config = {
+  format: "js",
+};
@@ -0,0 +1,85 @@
+import { readdir } from "fs/promises";
+import { resolve } from "path";
+import { loadConfig } from "..";
+import { describe, it, expect } from "vitest";
+
+describe("config", () => {
+  const fixtures = resolve(__dirname, "fixtures");
+
+  const env = {
+    mode: "dev",
+    appEnv: "development",
+    project: undefined,
+  } as const;
+
+  describe("loadConfig", () => {
+    it("loads the default export bundling the local imports", async () => {
+      const cwd = resolve(fixtures, "default");
+      expect(await loadConfig(cwd, undefined, env)).toEqual({
+        config: { format: "ts", functionsPath: "src/functions" },
+        path: "firemyna.config.ts",
+      });
+    });
+
+    it("calls the config factory with the environment", async () => {
+      const cwd = resolve(fixtures, "factory");
+
+      expect(await loadConfig(cwd, undefined, env)).toEqual({
+        config: { format: "ts", onlyFunctions: [] },
+        path: "firemyna.config.ts",
+      });
+
+      expect(
+        await loadConfig(cwd, undefined, {
+          mode: "build",
+          appEnv: "production",
+          project: "hello",
+        })
+      ).toEqual({
+        config: { format: "js", onlyFunctions: ["hello"] },
+        path: "firemyna.config.ts",
+      });
+    });
+
+    it("loads the config export", async () => {
+      const cwd = resolve(fixtures, "legacy");
+      expect(await loadConfig(cwd, undefined, env)).toEqual({
+        config: { format: "js" },
+        path: "firemyna.config.js",
+      });
+    });
+
+    it("allows to specify the config path", async () => {
+      expect(
+        await loadConfig(fixtures, "legacy/firemyna.config.js", env)
+      ).toEqual({
+        config: { format: "js" },
+        path: "legacy/firemyna.config.js",
+      });
+    });
+
+    it("returns undefined when the config is not found", async () => {
+      expect(await loadConfig(__dirname, undefined, env)).toBeUndefined();
+    });
+
+    it("throws when the config is invalid", async () => {
+      const cwd = resolve(fixtures, "invalid");
+      await expect(loadConfig(cwd, undefined, env)).rejects.toThrow(
+        "emulators.auth.port: expected a number between 1 and 65535, got 0"
+      );
+    });
+
+    it("throws when the config module exports nothing", async () => {
+      const cwd = resolve(fixtures, "broken");
+      await expect(loadConfig(cwd, undefined, env)).rejects.toThrow(
+        "The config module must export default or config"
+      );
+    });
+
+    it("does not write anything to the disk", async () => {
+      const before = await readdir(process.cwd());
+      await loadConfig(resolve(fixtures, "default"), undefined, env);
+      expect(await readdir(process.cwd())).toEqual(before);
+    });
+  });
+});
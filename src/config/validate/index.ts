@@ -0,0 +1,403 @@
+/**
+ * @module config/validate
+ *
+ * The Firemyna config validation module - checks the config against the schema
+ * and the file system and reports all found problems at once.
+ */
+
+import { stat } from "fs/promises";
+import { resolve } from "path";
+import { FiremynaBuildConfig } from "../../build";
+import { firestoreRulesPath, storageRulesPath } from "../../build/prepare";
+import { functionMatches, listFunctions } from "../../functions";
+import {
+  hostingConfig,
+  hostingSites,
+  listHostingRewrites,
+  missingRewriteFunctions,
+} from "../../hosting";
+import { configSchema, FiremynaJSONSchema } from "../schema";
+
+/**
+ * The config problem.
+ */
+export interface FiremynaConfigIssue {
+  /** The key path (i.e. `emulators.auth.port`) */
+  path: string;
+  /** The problem description */
+  message: string;
+}
+
+/**
+ * Validates the config against the config schema.
+ *
+ * @param config - the config to validate
+ * @returns the list of found problems
+ */
+export function validateConfig(config: unknown): FiremynaConfigIssue[] {
+  const issues: FiremynaConfigIssue[] = [];
+  validateValue(config, configSchema, [], issues);
+  return issues;
+}
+
+/**
+ * Validates the config against the file system: checks that the referenced
+ * files exist, the listed functions are present, and the emulators ports don't
+ * clash.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @returns promise to the list of found problems
+ */
+export async function validateConfigFiles(
+  buildConfig: FiremynaBuildConfig
+): Promise<FiremynaConfigIssue[]> {
+  const { cwd, config, paths } = buildConfig;
+  const issues: FiremynaConfigIssue[] = [];
+
+  const exists = (path: string) =>
+    stat(resolve(cwd, path)).then(
+      () => true,
+      () => false
+    );
+
+  const checkPath = async (key: string, path: string | undefined) => {
+    if (path && !(await exists(path)))
+      issues.push({ path: key, message: `the file ${path} does not exist` });
+  };
+
+  const functionsDirExists = await exists(paths.functions.src);
+  if (!functionsDirExists)
+    issues.push({
+      path: config.preset ? "preset" : "functionsPath",
+      message: `the functions directory ${paths.functions.src} does not exist`,
+    });
+
+  await Promise.all([
+    checkPath("functionsInitPath", config.functionsInitPath),
+    checkPath("functionsRuntimeConfigPath", config.functionsRuntimeConfigPath),
+    config.storage &&
+      checkPath(
+        typeof config.storage === "object" ? "storage.rulesPath" : "storage",
+        storageRulesPath(config)
+      ),
+    config.firestore &&
+      checkPath(
+        typeof config.firestore === "object"
+          ? "firestore.rulesPath"
+          : "firestore",
+        firestoreRulesPath(config)
+      ),
+    typeof config.firestore === "object" &&
+      checkPath("firestore.indexesPath", config.firestore.indexesPath),
+  ]);
+
+  const hostingRewrites = listHostingRewrites(config);
+  if ((config.onlyFunctions || hostingRewrites.length) && functionsDirExists) {
+    const fns = await listFunctions({
+      ...buildConfig,
+      config: { ...config, onlyFunctions: undefined },
+    });
+
+    config.onlyFunctions?.forEach((name, index) => {
+      if (!fns.some((fn) => functionMatches(fn, name)))
+        issues.push({
+          path: `onlyFunctions.${index}`,
+          message: `the function ${name} does not exist`,
+        });
+    });
+
+    missingRewriteFunctions(buildConfig, fns).forEach(([path, name]) =>
+      issues.push({ path, message: `the function ${name} does not exist` })
+    );
+  }
+
+  hostingRewrites.forEach(([path, rewrite]) => {
+    if (!rewrite.destination === !rewrite.function)
+      issues.push({ path, message: "expected either destination or function" });
+  });
+
+  const hosting = hostingConfig(config);
+  if (hosting?.publicPath) {
+    if (config.preset)
+      issues.push({
+        path: "hosting.publicPath",
+        message: `the ${config.preset} preset copies the static files itself`,
+      });
+    else await checkPath("hosting.publicPath", hosting.publicPath);
+  }
+
+  const sites = hostingSites(config);
+  if (sites) {
+    if (config.preset)
+      issues.push({
+        path: "hosting",
+        message: `the ${config.preset} preset builds a single site, use the sites commands instead`,
+      });
+
+    const targets: Record<string, number> = {};
+    sites.forEach(({ target }, index) => {
+      const other = targets[target];
+      if (other !== undefined)
+        issues.push({
+          path: `hosting.${index}.target`,
+          message: `the target ${target} is already used by hosting.${other}`,
+        });
+      else targets[target] = index;
+    });
+  }
+
+  if (config.emulators) {
+    const ports: Record<number, string> = {};
+
+    Object.entries(config.emulators).forEach(([name, emulator]) => {
+      const port = typeof emulator === "object" && emulator.port;
+      if (!port) return;
+
+      const other = ports[port];
+      if (other)
+        issues.push({
+          path: `emulators.${name}.port`,
+          message: `the port ${port} is already used by emulators.${other}`,
+        });
+      else ports[port] = name;
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Creates an error describing the config problems.
+ *
+ * @param configPath - the config file path
+ * @param issues - the list of found problems
+ * @returns the error to throw
+ */
+export function configIssuesError(
+  configPath: string,
+  issues: FiremynaConfigIssue[]
+): Error {
+  return new Error(
+    `The Firemyna config located at ${configPath} is invalid:\n` +
+      issues.map(({ path, message }) => `  - ${path}: ${message}`).join("\n")
+  );
+}
+
+/**
+ * Validates the value against the schema, adding found problems to the list.
+ * The value matching several `anyOf` options must be valid against one of them.
+ *
+ * @param value - the value to validate
+ * @param schema - the schema to validate against
+ * @param keyPath - the value key path
+ * @param issues - the issues list to add problems to
+ */
+export function validateValue(
+  value: unknown,
+  schema: FiremynaJSONSchema,
+  keyPath: string[],
+  issues: FiremynaConfigIssue[]
+) {
+  const path = keyPath.join(".") || "config";
+  const report = (message: string) => issues.push({ path, message });
+
+  if (schema.anyOf) {
+    const matching = schema.anyOf.filter((option) =>
+      matchesType(value, option)
+    );
+
+    if (!matching.length) {
+      report(
+        `expected ${schema.anyOf
+          .map(describeType)
+          .join(" or ")}, got ${describeValue(value)}`
+      );
+      return;
+    }
+
+    // Accept the value valid against any of the matching options, otherwise
+    // report the problems found with the first one
+    const optionsIssues = matching.map((option) => {
+      const optionIssues: FiremynaConfigIssue[] = [];
+      validateValue(value, option, keyPath, optionIssues);
+      return optionIssues;
+    });
+    if (optionsIssues.every((optionIssues) => optionIssues.length))
+      issues.push(...optionsIssues[0]!);
+    return;
+  }
+
+  if (!matchesType(value, schema)) {
+    report(`expected ${describeType(schema)}, got ${describeValue(value)}`);
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    report(`expected ${describeType(schema)}, got ${JSON.stringify(value)}`);
+    return;
+  }
+
+  if (typeof value === "number") {
+    if (
+      (schema.minimum !== undefined && value < schema.minimum) ||
+      (schema.maximum !== undefined && value > schema.maximum)
+    )
+      report(
+        `expected a number between ${schema.minimum} and ${schema.maximum}, got ${value}`
+      );
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) =>
+      validateValue(item, schema.items!, keyPath.concat(String(index)), issues)
+    );
+  } else if (
+    isPlainObject(value) &&
+    (schema.properties || typeof schema.additionalProperties === "object")
+  ) {
+    schema.required?.forEach((key) => {
+      if (value[key] === undefined)
+        issues.push({
+          path: keyPath.concat(key).join("."),
+          message: "required key is missing",
+        });
+    });
+
+    Object.entries(value).forEach(([key, item]) => {
+      const itemSchema =
+        schema.properties?.[key] ||
+        (typeof schema.additionalProperties === "object"
+          ? schema.additionalProperties
+          : undefined);
+      if (itemSchema) {
+        // Treat undefined as not set
+        if (item !== undefined)
+          validateValue(item, itemSchema, keyPath.concat(key), issues);
+      } else if (schema.additionalProperties === false) {
+        const known = Object.keys(schema.properties || {});
+        const suggestion = known.find((name) => similarKeys(name, key));
+        issues.push({
+          path: keyPath.concat(key).join("."),
+          message:
+            "unknown key" +
+            (suggestion ? `, did you mean ${suggestion}?` : "") +
+            ` (known keys: ${known.join(", ")})`,
+        });
+      }
+    });
+  }
+}
+
+/**
+ * Tests if the value matches the schema type.
+ *
+ * @param value - the value to test
+ * @param schema - the schema to test against
+ * @returns true if the value matches the schema type
+ */
+function matchesType(value: unknown, schema: FiremynaJSONSchema): boolean {
+  if (schema.instanceof === "RegExp") return value instanceof RegExp;
+  if (schema.instanceof === "Function") return typeof value === "function";
+  if (!schema.type) return true;
+
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  return types.some((type) => {
+    switch (type) {
+      case "string":
+      case "boolean":
+      case "number":
+        return typeof value === type;
+      case "integer":
+        return Number.isInteger(value);
+      case "array":
+        return Array.isArray(value);
+      case "object":
+        return isPlainObject(value);
+    }
+  });
+}
+
+/**
+ * Describes the schema type in a human-readable form.
+ *
+ * @param schema - the schema to describe
+ * @returns the type description
+ */
+function describeType(schema: FiremynaJSONSchema): string {
+  if (schema.instanceof) return `a ${schema.instanceof}`;
+  if (schema.enum)
+    return `one of ${schema.enum
+      .map((option) => JSON.stringify(option))
+      .join(", ")}`;
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  return types
+    .map((type) => (/^[aeiou]/.test(type!) ? "an " : "a ") + type)
+    .join(" or ");
+}
+
+/**
+ * Describes the value in a human-readable form.
+ *
+ * @param value - the value to describe
+ * @returns the value description
+ */
+function describeValue(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  if (value instanceof RegExp) return value.toString();
+  if (typeof value === "object") return "an object";
+  if (typeof value === "function") return "a function";
+  return `${typeof value} ${JSON.stringify(value)}`;
+}
+
+/**
+ * Tests if the value is a plain object.
+ *
+ * @param value - the value to test
+ * @returns true if the value is a plain object
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof RegExp)
+  );
+}
+
+/**
+ * Tests if the keys are similar, i.e. one is a typo of another (like
+ * `emulator` and `emulators`).
+ *
+ * @param a - the first key
+ * @param b - the second key
+ * @returns true if the keys are similar
+ */
+function similarKeys(a: string, b: string): boolean {
+  return editDistance(a.toLowerCase(), b.toLowerCase()) <= 2;
+}
+
+/**
+ * Calculates the Levenshtein distance between the strings.
+ *
+ * @param a - the first string
+ * @param b - the second string
+ * @returns the edit distance
+ */
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const next = [i];
+    for (let j = 1; j <= b.length; j++) {
+      next[j] = Math.min(
+        prev[j]! + 1,
+        next[j - 1]! + 1,
+        prev[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    prev = next;
+  }
+
+  return prev[b.length]!;
+}
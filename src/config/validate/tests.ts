@@ -0,0 +1,198 @@
+import {
+  configIssuesError,
+  FiremynaConfigIssue,
+  validateConfig,
+  validateValue,
+} from ".";
+import { FiremynaJSONSchema } from "../schema";
+import { describe, it, expect } from "vitest";
+
+describe("config/validate", () => {
+  describe("validateConfig", () => {
+    it("returns no issues for a valid config", () => {
+      expect(
+        validateConfig({
+          node: "18",
+          format: "ts",
+          functionsIgnorePaths: [/test/],
+          emulators: { auth: true, functions: { port: 5002 } },
+          firestore: { rulesPath: "firestore.rules" },
+          hosting: undefined,
+        })
+      ).toEqual([]);
+    });
+
+    it("reports unknown keys suggesting the right one", () => {
+      expect(validateConfig({ emulator: {} })).toEqual([
+        {
+          path: "emulator",
+          message: expect.stringMatching(
+            /^unknown key, did you mean emulators\?/
+          ),
+        },
+      ]);
+    });
+
+    it("reports wrong types and values", () => {
+      expect(
+        validateConfig({
+          node: 20,
+          format: "coffee",
+          onlyFunctions: ["a", 1],
+          functionsIgnorePaths: ["test"],
+        })
+      ).toEqual([
+        {
+          path: "node",
+          message:
+            'expected one of "14", "16", "18", "20", "22", got number 20',
+        },
+        {
+          path: "format",
+          message: 'expected one of "ts", "js", got "coffee"',
+        },
+        {
+          path: "onlyFunctions.1",
+          message: "expected a string, got number 1",
+        },
+        {
+          path: "functionsIgnorePaths.0",
+          message: 'expected a RegExp, got string "test"',
+        },
+      ]);
+    });
+
+    it("reports invalid emulator ports", () => {
+      expect(
+        validateConfig({
+          emulators: {
+            auth: { port: 99999 },
+            firestore: { port: "8080" },
+            hosting: "yes",
+          },
+        })
+      ).toEqual([
+        {
+          path: "emulators.auth.port",
+          message: "expected a number between 1 and 65535, got 99999",
+        },
+        {
+          path: "emulators.firestore.port",
+          message: 'expected an integer, got string "8080"',
+        },
+        {
+          path: "emulators.hosting",
+          message: 'expected a boolean or an object, got string "yes"',
+        },
+      ]);
+    });
+
+    it("validates the function overrides", () => {
+      expect(
+        validateConfig({
+          functions: {
+            overrides: {
+              "pdf.*": { memory: "2GB", minify: true },
+              hello: { node: "12", timeout: 60 },
+            },
+          },
+        })
+      ).toEqual([
+        {
+          path: "functions.overrides.hello.node",
+          message: expect.stringMatching(/^expected one of "14"/),
+        },
+        {
+          path: "functions.overrides.hello.timeout",
+          message: expect.stringMatching(/^unknown key/),
+        },
+      ]);
+    });
+    it("validates the hosting config", () => {
+      expect(
+        validateConfig({
+          hosting: {
+            cleanUrls: true,
+            headers: [{ source: "**/*.js", headers: { "Cache-Control": 1 } }],
+            redirects: [{ source: "/old", type: 307 }],
+            rewrites: [{ source: "/api/**", function: "api" }],
+          },
+        })
+      ).toEqual([
+        {
+          path: "hosting.headers.0.headers.Cache-Control",
+          message: "expected a string, got number 1",
+        },
+        {
+          path: "hosting.redirects.0.destination",
+          message: "required key is missing",
+        },
+        {
+          path: "hosting.redirects.0.type",
+          message: "expected one of 301, 302, got 307",
+        },
+      ]);
+    });
+    it("validates the hosting sites", () => {
+      expect(
+        validateConfig({
+          hosting: [
+            { target: "app", site: { default: "acme-app" }, cleanUrls: true },
+            { target: "admin", publicPath: "admin/dist" },
+          ],
+        })
+      ).toEqual([
+        { path: "hosting.1.site", message: "required key is missing" },
+      ]);
+    });
+  });
+
+  describe("validateValue", () => {
+    const schema: FiremynaJSONSchema = {
+      anyOf: [
+        {
+          type: "object",
+          properties: { port: { type: "number" } },
+          additionalProperties: false,
+        },
+        {
+          type: "object",
+          properties: { host: { type: "string" } },
+          additionalProperties: false,
+        },
+      ],
+    };
+
+    function validate(value: unknown) {
+      const issues: FiremynaConfigIssue[] = [];
+      validateValue(value, schema, ["emulator"], issues);
+      return issues;
+    }
+
+    it("accepts the value valid against one of the matching options", () => {
+      expect(validate({ host: "localhost" })).toEqual([]);
+    });
+
+    it("validates the value matching several options", () => {
+      expect(validate({ port: "8080" })).toEqual([
+        {
+          path: "emulator.port",
+          message: 'expected a number, got string "8080"',
+        },
+      ]);
+    });
+  });
+
+  describe("configIssuesError", () => {
+    it("lists all issues with the config path", () => {
+      expect(
+        configIssuesError("firemyna.config.ts", [
+          { path: "node", message: "wrong" },
+          { path: "format", message: "also wrong" },
+        ]).message
+      ).toBe(`The Firemyna config located at firemyna.config.ts is invalid:
+  - node: wrong
+  - format: also wrong`);
+    });
+  });
+});
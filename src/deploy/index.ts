@@ -0,0 +1,43 @@
+import cp from "child_process";
+import { resolve } from "path";
+import { FiremynaBuildConfig } from "../build";
+
+/**
+ * The {@link runDeploy} function options.
+ */
+export interface RunDeployOptions {
+  /** The Firebase token to use */
+  token?: string;
+}
+
+/**
+ * Deploys the built app using Firebase CLI.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @param options - the deploy options
+ * @returns promise to the Firebase CLI exit code
+ */
+export function runDeploy(
+  buildConfig: FiremynaBuildConfig,
+  { token }: RunDeployOptions = {}
+): Promise<number | null> {
+  const p = cp.spawn(
+    "npx",
+    ["firebase", "deploy"]
+      // Assign Firebase project
+      .concat(buildConfig.project ? ["--project", buildConfig.project] : [])
+      // Assign Firebase token for CI
+      // TODO: Remove with the next Firebase Tools
+      .concat(token ? ["--token", token] : [])
+      // Force deploy (removal of functions)
+      .concat(buildConfig.config.deploy?.force ? ["--force"] : []),
+    {
+      cwd: resolve(buildConfig.cwd, buildConfig.paths.appEnvBuild),
+      shell: true,
+      stdio: "inherit",
+      env: process.env,
+    }
+  );
+
+  return new Promise((resolve) => p.on("close", resolve));
+}
@@ -1,11 +1,20 @@
 import { parse as parseSource } from "acorn";
+import { BuildResult } from "esbuild";
 import { walk } from "estree-walker";
 import { flatten, uniq } from "js-fns";
 import glob from "glob";
 import fs from "fs/promises";
+import { builtinModules } from "module";
 import { FiremynaBuildConfig } from "../build";
-import { resolve as resolvePath } from "path";
+import { dirname, resolve as resolvePath } from "path";
+import {
+  FiremynaPackageManagerInfo,
+  lockedVersions,
+  lockfileImporter,
+  readLockfile,
+} from "../lockfile";
 import { FiremynaPkg } from "../pkg";
+import semver from "semver";
 
 export function parseBuildDependencies(
   buildConfig: FiremynaBuildConfig
@@ -16,27 +25,37 @@ export function parseBuildDependencies(
   );
 
   return new Promise((resolve, reject) => {
-    glob("**/*.cjs", { cwd: buildPath, dot: true }, async (error, files) => {
-      if (error) {
-        reject(error);
-        return;
-      }
+    glob(
+      "**/*.{cjs,mjs}",
+      { cwd: buildPath, dot: true },
+      async (error, files) => {
+        if (error) {
+          reject(error);
+          return;
+        }
 
-      const fileDeps = await Promise.all(
-        files.map(async (file) => {
-          const filePath = resolvePath(buildPath, file);
-          const source = await fs.readFile(filePath, "utf8");
-          return parseSourceDependencies(source);
-        })
-      );
+        const fileDeps = await Promise.all(
+          files.map(async (file) => {
+            const filePath = resolvePath(buildPath, file);
+            const source = await fs.readFile(filePath, "utf8");
+            return parseSourceDependencies(
+              source,
+              file.endsWith(".mjs") ? "module" : "script"
+            );
+          })
+        );
 
-      return resolve(uniq(flatten(fileDeps)));
-    });
+        return resolve(uniq(flatten(fileDeps)));
+      }
+    );
   });
 }
 
-export function parseSourceDependencies(source: string): string[] {
-  const ast = parseSource(source, { ecmaVersion: "latest" });
+export function parseSourceDependencies(
+  source: string,
+  sourceType: "script" | "module" = "script"
+): string[] {
+  const ast = parseSource(source, { ecmaVersion: "latest", sourceType });
   const deps: string[] = [];
 
   walk(ast, {
@@ -46,9 +65,14 @@ export function parseSourceDependencies(source: string): string[] {
       if (node.type === "CallExpression" && node.callee.name === "require") {
         // @ts-ignore
         depPath = node.arguments[0].value;
-      } else if (node.type === "ImportExpression") {
+      } else if (
+        node.type === "ImportExpression" ||
+        node.type === "ImportDeclaration" ||
+        node.type === "ExportAllDeclaration" ||
+        node.type === "ExportNamedDeclaration"
+      ) {
         // @ts-ignore
-        depPath = node.source.value;
+        depPath = node.source?.value;
       }
 
       const depName = matchDep(depPath);
@@ -74,3 +98,234 @@ export function listPkgDependencies(packageJSON: FiremynaPkg): string[] {
     Object.keys(packageJSON.devDependencies || {})
   );
 }
+
+/**
+ * Lists the packages imported by the build outputs, using the external
+ * imports from the esbuild metafiles.
+ *
+ * @param builds - the build results
+ * @returns the imported packages names
+ */
+export function parseMetafileDependencies(
+  builds: Array<BuildResult | undefined>
+): string[] {
+  return uniq(
+    builds.flatMap((build) =>
+      Object.values(build?.metafile?.outputs || {}).flatMap((output) =>
+        output.imports.flatMap((imp) => {
+          if (!imp.external || imp.path.startsWith("node:")) return [];
+          const dep = matchDep(imp.path);
+          return dep && !builtinModules.includes(dep) ? [dep] : [];
+        })
+      )
+    )
+  );
+}
+
+/**
+ * The {@link checkDependencies} result.
+ */
+export interface FiremynaDependenciesCheck {
+  /** The imported packages that are not installed on deploy */
+  errors: string[];
+  /** The declared packages that are not installed or don't satisfy
+   * the declared ranges */
+  warnings: string[];
+}
+
+/**
+ * Checks that the packages imported by the build are listed in
+ * the package.json dependencies, so Firebase installs them on deploy.
+ * The packages missing in the dependencies or listed only in
+ * the devDependencies are reported as errors, and the declared packages
+ * that are not installed (unless optional) or don't satisfy the declared
+ * ranges as warnings.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @param pkg - the generated package.json
+ * @param deps - the imported packages names
+ * @returns promise to the check result
+ */
+export async function checkDependencies(
+  buildConfig: FiremynaBuildConfig,
+  pkg: FiremynaPkg,
+  deps: string[]
+): Promise<FiremynaDependenciesCheck> {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  for (const name of deps) {
+    const range = pkg.dependencies?.[name] ?? pkg.optionalDependencies?.[name];
+    if (range === undefined) {
+      errors.push(
+        name in (pkg.devDependencies || {})
+          ? `${name} (listed in devDependencies)`
+          : name
+      );
+      continue;
+    }
+
+    const installed = await readInstalledPkg(buildConfig.cwd, name);
+    if (!installed) {
+      if (!(name in (pkg.optionalDependencies || {})))
+        warnings.push(
+          `The package ${name} is listed in dependencies but not installed`
+        );
+    } else if (
+      installed.version &&
+      satisfiesRange(installed.version, range) === false
+    )
+      warnings.push(
+        `The installed package ${name}@${installed.version} doesn't satisfy the declared range ${range}`
+      );
+  }
+
+  return { errors, warnings };
+}
+
+/**
+ * The {@link generateMinimalPkg} result.
+ */
+export interface FiremynaMinimalPkgResult {
+  /** The generated package.json */
+  pkg: FiremynaPkg;
+  /** The imported packages that are not installed */
+  warnings: string[];
+}
+
+/**
+ * The packages always included into the minimal package.json.
+ */
+const firebaseDependencies = ["firebase-admin", "firebase-functions"];
+
+/**
+ * Generates the package.json with only the dependencies imported by
+ * the build, the required peer dependencies of those, Firebase packages and
+ * the config `keepDependencies`. The dev dependencies are dropped. npm
+ * projects get the exact locked versions, while yarn and pnpm keep
+ * the declared ranges their lockfiles are keyed by.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @param pkg - the generated package.json
+ * @param packageManager - the detected package manager
+ * @param deps - the imported packages names
+ * @returns promise to the minimal package.json
+ */
+export async function generateMinimalPkg(
+  buildConfig: FiremynaBuildConfig,
+  pkg: FiremynaPkg,
+  packageManager: FiremynaPackageManagerInfo,
+  deps: string[]
+): Promise<FiremynaMinimalPkgResult> {
+  const lockfile = await readLockfile(packageManager);
+  const locked = lockfile
+    ? lockedVersions(
+        packageManager.name,
+        lockfile,
+        pkg,
+        lockfileImporter(buildConfig, packageManager)
+      )
+    : {};
+  const declared = { ...pkg.devDependencies, ...pkg.dependencies };
+
+  const dependencies: Record<string, string> = {};
+  const warnings: string[] = [];
+
+  async function add(name: string, required: boolean) {
+    if (name in dependencies) return;
+
+    const installed = await readInstalledPkg(buildConfig.cwd, name);
+    const version =
+      (packageManager.name === "npm" ? locked[name] : undefined) ||
+      declared[name] ||
+      locked[name] ||
+      installed?.version;
+
+    if (!version) {
+      if (required)
+        warnings.push(
+          `The package ${name} is used by the functions but is not installed`
+        );
+      return;
+    }
+
+    dependencies[name] = version;
+
+    const { peerDependencies = {}, peerDependenciesMeta = {} } =
+      installed || {};
+    for (const peer of Object.keys(peerDependencies)) {
+      if (!peerDependenciesMeta[peer]?.optional) await add(peer, true);
+    }
+  }
+
+  for (const name of uniq(
+    deps.concat(buildConfig.config.keepDependencies || [])
+  ))
+    await add(name, true);
+  for (const name of firebaseDependencies) await add(name, false);
+
+  const { devDependencies, ...rest } = pkg;
+  return {
+    pkg: {
+      ...rest,
+      dependencies: Object.fromEntries(
+        Object.entries(dependencies).sort(([a], [b]) => a.localeCompare(b))
+      ),
+    },
+    warnings,
+  };
+}
+
+/**
+ * The installed package.json fields used to generate the minimal
+ * package.json.
+ */
+interface InstalledPkg {
+  version?: string;
+  peerDependencies?: Record<string, string>;
+  peerDependenciesMeta?: Record<string, { optional?: boolean }>;
+}
+
+/**
+ * Reads the installed package package.json, looking for node_modules in
+ * the directory and its parents like Node.js does.
+ *
+ * @param cwd - the directory to start from
+ * @param name - the package name
+ * @returns promise to the package.json or undefined if it's not installed
+ */
+async function readInstalledPkg(
+  cwd: string,
+  name: string
+): Promise<InstalledPkg | undefined> {
+  let dir = resolvePath(cwd);
+
+  while (true) {
+    const pkg = await fs
+      .readFile(resolvePath(dir, "node_modules", name, "package.json"), "utf8")
+      .then((json) => JSON.parse(json) as InstalledPkg)
+      .catch(() => undefined);
+    if (pkg) return pkg;
+
+    const parent = dirname(dir);
+    if (parent === dir) return;
+    dir = parent;
+  }
+}
+
+/**
+ * Checks if the version satisfies the npm range. The prerelease versions
+ * satisfy the range only when it has a prerelease of the same release.
+ *
+ * @param version - the version to check, i.e. `1.2.3`
+ * @param range - the npm range, i.e. `^1.2.0 || >=2.1.0 <3`
+ * @returns true if the version satisfies the range or undefined if either is
+ * not a semver, i.e. a tag, a git or a file path
+ */
+export function satisfiesRange(
+  version: string,
+  range: string
+): boolean | undefined {
+  if (!semver.valid(version) || !semver.validRange(range)) return;
+  return semver.satisfies(version, range, { includePrerelease: false });
+}
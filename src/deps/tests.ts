@@ -1,4 +1,14 @@
-import { listPkgDependencies, parseSourceDependencies } from ".";
+import { BuildResult } from "esbuild";
+import { resolve } from "path";
+import {
+  checkDependencies,
+  generateMinimalPkg,
+  listPkgDependencies,
+  parseMetafileDependencies,
+  parseSourceDependencies,
+  satisfiesRange,
+} from ".";
+import { FiremynaBuildConfig } from "../build";
 import { describe, it, expect } from "vitest";
 
 describe("deps", () => {
@@ -13,6 +23,19 @@ require("js-fns");
       `);
       expect(result).toEqual(["@typesaurus/react", "date-fns", "js-fns"]);
     });
+
+    it("parses dependencies from ES modules", () => {
+      const result = parseSourceDependencies(
+        `import * as functions from "firebase-functions";
+import { a } from "./a.mjs";
+export { default as b } from "./b.mjs";
+export * from "zod";
+const c = await import("date-fns/fp");
+export const d = 1;`,
+        "module"
+      );
+      expect(result).toEqual(["firebase-functions", "zod", "date-fns"]);
+    });
   });
 
   describe("listPkgDependencies", () => {
@@ -40,4 +63,227 @@ require("js-fns");
       expect(result).toEqual([]);
     });
   });
+
+  describe("parseMetafileDependencies", () => {
+    it("lists the external packages imported by the outputs", () => {
+      const build = {
+        metafile: {
+          inputs: {},
+          outputs: {
+            "a.cjs": {
+              imports: [
+                {
+                  path: "firebase-functions/v2",
+                  kind: "require-call",
+                  external: true,
+                },
+                { path: "fs", kind: "require-call", external: true },
+                { path: "node:path", kind: "require-call", external: true },
+                {
+                  path: "./chunks/a.cjs",
+                  kind: "require-call",
+                  external: true,
+                },
+                { path: "@acme/shared", kind: "require-call", external: false },
+              ],
+            },
+            "b.cjs": {
+              imports: [
+                { path: "zod", kind: "dynamic-import", external: true },
+                {
+                  path: "firebase-functions",
+                  kind: "require-call",
+                  external: true,
+                },
+              ],
+            },
+          },
+        },
+      } as unknown as BuildResult;
+
+      expect(parseMetafileDependencies([build, undefined])).toEqual([
+        "firebase-functions",
+        "zod",
+      ]);
+    });
+  });
+
+  describe("checkDependencies", () => {
+    const cwd = resolve(__dirname, "fixtures/minimal");
+
+    const buildConfig: FiremynaBuildConfig = {
+      project: undefined,
+      cwd,
+      appEnv: "production",
+      mode: "build",
+      paths: {
+        cwd,
+        appEnvBuild: "build",
+        functions: { src: "functions", build: "build/functions" },
+        hosting: { build: "build/hosting" },
+      },
+      config: { node: "18", format: "ts" },
+      renderer: false,
+    };
+
+    it("reports the undeclared and dev dependencies", async () => {
+      const result = await checkDependencies(
+        buildConfig,
+        {
+          dependencies: { "firebase-functions": "^3.20.0" },
+          devDependencies: { "js-fns": "^2.5.1" },
+        },
+        ["firebase-functions", "js-fns", "zod"]
+      );
+
+      expect(result).toEqual({
+        errors: ["js-fns (listed in devDependencies)", "zod"],
+        warnings: [],
+      });
+    });
+
+    it("warns about the installed versions mismatching the ranges", async () => {
+      const result = await checkDependencies(
+        buildConfig,
+        {
+          dependencies: {
+            "firebase-functions": "^4.4.0",
+            "js-fns": "github:kossnocorp/js-fns",
+          },
+          optionalDependencies: { zod: "^3.22.0" },
+        },
+        ["firebase-functions", "js-fns", "zod"]
+      );
+
+      expect(result).toEqual({
+        errors: [],
+        warnings: [
+          "The installed package firebase-functions@3.20.1 doesn't satisfy the declared range ^4.4.0",
+        ],
+      });
+    });
+
+    it("warns about the declared packages that are not installed", async () => {
+      const result = await checkDependencies(
+        buildConfig,
+        {
+          dependencies: {
+            "firebase-functions": "^3.20.0",
+            "not-installed-package": "^1.0.0",
+          },
+          optionalDependencies: { "sharp-missing": "^0.32.0" },
+        },
+        ["firebase-functions", "not-installed-package", "sharp-missing"]
+      );
+
+      expect(result).toEqual({
+        errors: [],
+        warnings: [
+          "The package not-installed-package is listed in dependencies but not installed",
+        ],
+      });
+    });
+  });
+
+  describe("satisfiesRange", () => {
+    it("checks the caret and tilde ranges", () => {
+      expect(satisfiesRange("1.4.2", "^1.2.0")).toBe(true);
+      expect(satisfiesRange("2.0.0", "^1.2.0")).toBe(false);
+      expect(satisfiesRange("0.2.5", "^0.2.3")).toBe(true);
+      expect(satisfiesRange("0.3.0", "^0.2.3")).toBe(false);
+      expect(satisfiesRange("0.0.4", "^0.0.3")).toBe(false);
+      expect(satisfiesRange("1.2.9", "~1.2.3")).toBe(true);
+      expect(satisfiesRange("1.3.0", "~1.2.3")).toBe(false);
+      expect(satisfiesRange("1.9.0", "~1")).toBe(true);
+    });
+
+    it("checks the comparators, hyphen and x-ranges", () => {
+      expect(satisfiesRange("2.1.0", ">=2.1.0 <3")).toBe(true);
+      expect(satisfiesRange("3.0.0", ">= 2.1.0 < 3")).toBe(false);
+      expect(satisfiesRange("1.5.0", "^0.9.0 || 1.x")).toBe(true);
+      expect(satisfiesRange("2.3.9", "1.2 - 2.3")).toBe(true);
+      expect(satisfiesRange("2.4.0", "1.2 - 2.3")).toBe(false);
+      expect(satisfiesRange("1.2.4", ">1.2")).toBe(false);
+      expect(satisfiesRange("5.0.0", "*")).toBe(true);
+      expect(satisfiesRange("1.2.3", "1.2.3")).toBe(true);
+      expect(satisfiesRange("1.2.4", "=1.2.3")).toBe(false);
+    });
+
+    it("matches the prereleases only of the same release", () => {
+      expect(satisfiesRange("1.2.3-beta.2", "^1.2.3-beta.1")).toBe(true);
+      expect(satisfiesRange("1.2.3-alpha", "^1.2.3-beta.1")).toBe(false);
+      expect(satisfiesRange("1.3.0-beta.1", "^1.2.3-beta.1")).toBe(false);
+      expect(satisfiesRange("1.3.0", "^1.2.3-beta.1")).toBe(true);
+    });
+
+    it("ignores the non-semver ranges", () => {
+      expect(satisfiesRange("1.0.0", "latest")).toBeUndefined();
+      expect(satisfiesRange("1.0.0", "workspace:*")).toBeUndefined();
+      expect(satisfiesRange("1.0.0", "file:../lib")).toBeUndefined();
+    });
+  });
+
+  describe("generateMinimalPkg", () => {
+    const cwd = resolve(__dirname, "fixtures/minimal");
+
+    const buildConfig: FiremynaBuildConfig = {
+      project: undefined,
+      cwd,
+      appEnv: "production",
+      mode: "build",
+      paths: {
+        cwd,
+        appEnvBuild: "build",
+        functions: { src: "functions", build: "build/functions" },
+        hosting: { build: "build/hosting" },
+      },
+      config: { node: "18", format: "ts", keepDependencies: ["sharp-missing"] },
+      renderer: false,
+    };
+
+    const pkg = {
+      dependencies: {
+        "firebase-functions": "^3.20.0",
+        react: "^18.2.0",
+        zod: "^3.22.0",
+      },
+      devDependencies: { vite: "^4.4.0" },
+    };
+
+    it("generates the package.json from the imported packages", async () => {
+      const result = await generateMinimalPkg(
+        buildConfig,
+        pkg,
+        { name: "npm", lockfileDir: cwd },
+        ["zod"]
+      );
+
+      expect(result.pkg).toEqual({
+        dependencies: {
+          "firebase-admin": "10.3.0",
+          "firebase-functions": "3.20.1",
+          zod: "3.22.4",
+        },
+      });
+      expect(result.warnings).toEqual([
+        "The package sharp-missing is used by the functions but is not installed",
+      ]);
+    });
+
+    it("keeps the declared ranges for yarn and pnpm", async () => {
+      const result = await generateMinimalPkg(
+        buildConfig,
+        pkg,
+        { name: "yarn", lockfileDir: cwd },
+        ["zod"]
+      );
+
+      expect(result.pkg.dependencies).toEqual({
+        // No yarn.lock, so the installed version is used
+        "firebase-admin": expect.any(String),
+        "firebase-functions": "^3.20.0",
+        zod: "^3.22.0",
+      });
+    });
+  });
 });
@@ -0,0 +1,460 @@
+import cp from "child_process";
+import { BuildIncremental } from "esbuild";
+import { basename, join, parse as parsePath, relative, resolve } from "path";
+import { FiremynaBuildConfig } from "../build";
+import { prepareBuild } from "../build/prepare";
+import { localNodeWarning, nodeDeprecationWarning } from "../config/node";
+import { writeCallablesClient } from "../client";
+import { writeEsbuildFile } from "../esbuild";
+import {
+  buildFile,
+  FiremynaFunction,
+  functionDeployName,
+  functionId,
+  functionOverride,
+  outputFile,
+  resolveFunctionExports,
+  stringifyFunctionsDefaults,
+  stringifyFunctionsIndex,
+  watchListFunction,
+} from "../functions";
+import { watchHostingAssets } from "../hosting";
+import { FiremynaPreset } from "../presets";
+import { watchDeps } from "../watch";
+
+/**
+ * The development server log entry.
+ */
+export interface FiremynaDevLog {
+  /** The log source: Firemyna itself, Firebase CLI or the preset dev server */
+  source: "firemyna" | "firebase" | "preset";
+  /** The source label (i.e. "Firebase" or "Vite") */
+  label: string;
+  /** The log message */
+  message: string;
+  /** If the message is an error */
+  error?: boolean;
+}
+
+/**
+ * The {@link startDevServer} function options.
+ */
+export interface StartDevServerOptions {
+  /** Called on every log entry */
+  onLog?: (log: FiremynaDevLog) => void;
+}
+
+/**
+ * The running development server.
+ */
+export interface FiremynaDevServer {
+  /** The Firemyna build config */
+  buildConfig: FiremynaBuildConfig;
+  /** Stops the watchers and the child processes
+   * @param signal - the signal to send to the child processes
+   * @returns promise to all child processes exit */
+  stop(signal?: NodeJS.Signals): Promise<void>;
+}
+
+/**
+ * Starts the development server: builds and watches the functions, syncs
+ * the Hosting static files, starts Firebase emulators (or serve) and
+ * the preset dev server.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @param options - the dev server options
+ * @returns promise to the server, resolved after the initial build
+ */
+export async function startDevServer(
+  buildConfig: FiremynaBuildConfig,
+  { onLog = () => {} }: StartDevServerOptions = {}
+): Promise<FiremynaDevServer> {
+  const { cwd, config, project } = buildConfig;
+
+  await prepareBuild(buildConfig);
+
+  const builds: Record<string, BuildIncremental> = {};
+  let initBuild: BuildIncremental | undefined = undefined;
+  let functions: FiremynaFunction[] = [];
+
+  const log = (message: string, error?: boolean) =>
+    onLog({ source: "firemyna", label: "Firemyna", message, error });
+
+  const nodeWarnings = [
+    nodeDeprecationWarning(config.node),
+    localNodeWarning(config.node),
+  ];
+  nodeWarnings.forEach((warning) => warning && log(warning, true));
+
+  const hostingWatcher = await watchHostingAssets(buildConfig, (error) =>
+    log(
+      `Failed to sync the Hosting file: ${
+        error instanceof Error ? error.message : error
+      }`,
+      true
+    )
+  );
+
+  const { onBuild, onStop, close } = watchDeps(async (file) => {
+    log(`Rebuilding ${file}...`);
+    const build = await builds[file]?.rebuild();
+    build?.metafile && onBuild(file, build.metafile);
+    return writeEsbuildFile(build);
+  });
+
+  async function startBuilding(fn: FiremynaFunction) {
+    const name = functionDeployName(fn);
+    const build = await incrementalBuild(buildConfig, fn);
+    build?.metafile && onBuild(name, build.metafile);
+    builds[name] = build;
+    await writeEsbuildFile(build);
+  }
+
+  async function startBuildingInit() {
+    if (!buildConfig.config.functionsInitPath) return;
+
+    initBuild = await incrementalBuildInit(buildConfig);
+
+    initBuild?.metafile &&
+      onBuild(outputFile(buildConfig, "init"), initBuild.metafile);
+
+    initBuild && (await writeEsbuildFile(initBuild));
+  }
+
+  async function buildIndex() {
+    const indexContents = stringifyFunctionsIndex(functions, buildConfig);
+    const build = await buildFile({
+      file: outputFile(buildConfig, "index"),
+      input: {
+        type: "contents",
+        contents: indexContents,
+      },
+      resolvePath: buildConfig.paths.functions.src,
+      buildConfig,
+    });
+
+    build?.metafile &&
+      onBuild(outputFile(buildConfig, "index"), build.metafile);
+
+    return writeEsbuildFile(build);
+  }
+
+  async function buildDefaults() {
+    const contents = stringifyFunctionsDefaults(buildConfig);
+    if (!contents) return;
+
+    const build = await buildFile({
+      file: outputFile(buildConfig, "defaults"),
+      input: {
+        type: "contents",
+        contents,
+      },
+      resolvePath: buildConfig.paths.functions.src,
+      buildConfig,
+    });
+
+    return writeEsbuildFile(build);
+  }
+
+  async function generateClient() {
+    if (!buildConfig.config.client) return;
+
+    const clientPath = await writeCallablesClient(buildConfig);
+
+    log(`Generated the callables client at ${clientPath}`);
+  }
+
+  const children: cp.ChildProcessWithoutNullStreams[] = [];
+
+  function addChild(
+    child: cp.ChildProcessWithoutNullStreams,
+    source: FiremynaDevLog["source"],
+    label: string
+  ) {
+    children.push(child);
+
+    child.on("exit", () => {
+      children.splice(children.indexOf(child), 1);
+    });
+
+    child.stdout.on("data", (data) => {
+      onLog({ source, label, message: data.toString().trim() });
+    });
+
+    child.stderr.on("data", (data) => {
+      onLog({ source, label, message: data.toString().trim(), error: true });
+    });
+  }
+
+  let onReady: () => void;
+  let onFail: (error: unknown) => void;
+  const ready = new Promise<void>((resolve, reject) => {
+    onReady = resolve;
+    onFail = reject;
+  });
+
+  const functionsWatcher = await watchListFunction(
+    buildConfig,
+    async (message) => {
+      switch (message.type) {
+        case "initial": {
+          functions = message.functions;
+
+          try {
+            await Promise.all([
+              startBuildingInit(),
+              Promise.all(message.functions.map(startBuilding)),
+              buildDefaults(),
+              buildIndex(),
+              generateClient(),
+            ]);
+          } catch (error) {
+            onFail(error);
+            return;
+          }
+
+          const cwdRelativeToBuildDir = relative(
+            buildConfig.paths.appEnvBuild,
+            cwd
+          );
+          const emulatorsPath = join(
+            cwdRelativeToBuildDir,
+            typeof config.emulators?.persistence === "string"
+              ? config.emulators.persistence
+              : ".firebase/emulators"
+          );
+
+          const firebaseChild = cp.spawn(
+            "npx",
+            (config.emulators
+              ? ["firebase", "emulators:start"].concat(
+                  config.emulators?.persistence !== false
+                    ? [`--import=${emulatorsPath}`, "--export-on-exit"]
+                    : []
+                )
+              : ["firebase", "serve", "--only", "functions"].concat(
+                  config.hosting ? ["--only", "hosting"] : []
+                )
+            ).concat(project ? ["--project", project] : []),
+            {
+              cwd: resolve(buildConfig.cwd, buildConfig.paths.appEnvBuild),
+              shell: true,
+            }
+          );
+
+          addChild(firebaseChild, "firebase", "Firebase");
+
+          onReady();
+          return;
+        }
+
+        case "init": {
+          switch (message.event) {
+            case "add": {
+              await startBuildingInit();
+              return initBuild && buildIndex();
+            }
+
+            case "change": {
+              const build = await initBuild?.rebuild();
+              return initBuild && writeEsbuildFile(build);
+            }
+
+            case "unlink": {
+              log(
+                `The init function was removed. Please restart the server if the configuration has changed.`,
+                true
+              );
+              initBuild = undefined;
+              onStop(outputFile(buildConfig, "init"));
+              return;
+            }
+          }
+        }
+
+        case "function": {
+          try {
+            await handleFunctionEvent(message.event, message.function);
+          } catch (error) {
+            log(error instanceof Error ? error.message : String(error), true);
+          }
+        }
+      }
+    }
+  );
+
+  async function handleFunctionEvent(
+    event: "add" | "change" | "unlink",
+    eventFn: FiremynaFunction
+  ) {
+    const name = functionDeployName(eventFn);
+
+    switch (event) {
+      case "add": {
+        const fn = await resolveFunctionExports(buildConfig, eventFn);
+        functions.push(fn);
+        await startBuilding(fn);
+        return Promise.all([buildIndex(), generateClient()]);
+      }
+
+      case "change": {
+        const fn = await resolveFunctionExports(buildConfig, eventFn);
+        const index = functions.findIndex(
+          (prevFn) => functionDeployName(prevFn) === name
+        );
+        // Rebuild the index if the named exports have changed
+        const exportsChanged =
+          index !== -1 &&
+          String(functions[index]!.exports) !== String(fn.exports);
+        if (index !== -1) functions[index] = fn;
+
+        const build = await builds[name]?.rebuild();
+        return Promise.all([
+          writeEsbuildFile(build),
+          generateClient(),
+          exportsChanged && buildIndex(),
+        ]);
+      }
+
+      case "unlink": {
+        functions = functions.filter((fn) => functionDeployName(fn) !== name);
+        builds[name]?.rebuild.dispose();
+        delete builds[name];
+        await Promise.all([buildIndex(), generateClient()]);
+        // Stop watching the file
+        onStop(name);
+        break;
+      }
+    }
+  }
+
+  const presetDev = config.preset && presetDevCommand(config.preset);
+  if (presetDev) {
+    const presetChild = cp.spawn("npx", presetDev.args, {
+      cwd: buildConfig.cwd,
+      shell: true,
+      env: presetDev.env && { ...process.env, ...presetDev.env },
+    });
+
+    addChild(presetChild, "preset", presetDev.label);
+  }
+
+  const server: FiremynaDevServer = {
+    buildConfig,
+
+    async stop(signal = "SIGTERM") {
+      await Promise.all([
+        functionsWatcher.close(),
+        hostingWatcher.close(),
+        close(),
+      ]);
+
+      Object.values(builds).forEach((build) => build.rebuild.dispose());
+      (initBuild as BuildIncremental | undefined)?.rebuild.dispose();
+
+      await Promise.all(
+        children.map(
+          (child) =>
+            new Promise((resolve) => {
+              child.on("exit", resolve);
+              child.kill(signal);
+            })
+        )
+      );
+    },
+  };
+
+  try {
+    await ready;
+  } catch (error) {
+    // Dispose the started watchers and builds to let the process exit
+    await server.stop();
+    throw error;
+  }
+
+  return server;
+}
+
+/**
+ * The preset dev server command.
+ */
+interface PresetDevCommand {
+  /** The npx arguments */
+  args: string[];
+  /** The log label */
+  label: string;
+  /** The env variables to add */
+  env?: Record<string, string>;
+}
+
+/**
+ * Returns the preset dev server command.
+ *
+ * @param preset - the preset
+ * @returns the preset dev server command
+ */
+function presetDevCommand(preset: FiremynaPreset): PresetDevCommand {
+  switch (preset) {
+    case "astro":
+      return { args: ["astro", "dev"], label: "Astro" };
+
+    case "cra":
+      return { args: ["react-scripts", "start"], label: "CRA" };
+
+    case "vite":
+      return { args: ["vite"], label: "Vite" };
+
+    case "remix":
+      return {
+        args: ["remix", "dev"],
+        label: "Remix",
+        env: { NODE_ENV: "development" },
+      };
+
+    case "next":
+      return {
+        args: ["next", "dev"],
+        label: "Next.js",
+        env: { NODE_ENV: "development" },
+      };
+  }
+}
+
+async function incrementalBuild(
+  buildConfig: FiremynaBuildConfig,
+  fn: FiremynaFunction
+) {
+  const file = outputFile(buildConfig, functionDeployName(fn));
+  return buildFile({
+    file,
+    input: {
+      type: "entry",
+      path: resolve(buildConfig.cwd, fn.path),
+      sourceFile: basename(fn.path),
+    },
+    resolvePath: resolve(buildConfig.cwd, parsePath(fn.path).dir),
+    bundle: true,
+    buildConfig,
+    incremental: true,
+    metafile: true,
+    override: functionOverride(buildConfig, functionId(fn)),
+  });
+}
+
+async function incrementalBuildInit(buildConfig: FiremynaBuildConfig) {
+  const initPath = buildConfig.config.functionsInitPath;
+  if (!initPath) return;
+  return buildFile({
+    file: outputFile(buildConfig, "init"),
+    input: {
+      type: "entry",
+      path: resolve(buildConfig.cwd, initPath),
+      sourceFile: basename(initPath),
+    },
+    resolvePath: resolve(buildConfig.cwd, parsePath(initPath).dir),
+    bundle: true,
+    buildConfig,
+    incremental: true,
+    metafile: true,
+  });
+}
@@ -1,8 +1,10 @@
-import { BuildIncremental, BuildResult } from "esbuild";
-import { writeFile } from "fs/promises";
+import { BuildIncremental, BuildResult, Message } from "esbuild";
+import { mkdir, writeFile } from "fs/promises";
+import { dirname } from "path";
 
 /**
- * Writes all build files to disk.
+ * Writes all build files to disk, creating the nested directories
+ * (i.e. the split build chunks).
  *
  * @param build - the build result
  * @returns promise to all build files to be written
@@ -11,6 +13,22 @@ export function writeEsbuildFile(
   build: BuildIncremental | BuildResult | undefined
 ) {
   return Promise.all(
-    build?.outputFiles?.map((file) => writeFile(file.path, file.text)) || []
+    build?.outputFiles?.map(async (file) => {
+      await mkdir(dirname(file.path), { recursive: true });
+      return writeFile(file.path, file.text);
+    }) || []
   );
 }
+
+/**
+ * Stringifies esbuild message (i.e. a warning) to a single line.
+ *
+ * @param message - the esbuild message
+ * @returns the message string
+ */
+export function stringifyEsbuildMessage(message: Message): string {
+  const { location, text } = message;
+  return location
+    ? `${location.file}:${location.line}:${location.column}: ${text}`
+    : text;
+}
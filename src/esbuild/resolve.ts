@@ -2,24 +2,96 @@ import { CachedInputFileSystem, ResolverFactory } from "enhanced-resolve";
 import { Plugin } from "esbuild";
 import * as fs from "fs";
 import { builtinModules } from "module";
+import { dirname, isAbsolute } from "path";
+import ts from "typescript";
+import type { FiremynaOutputFormat } from "../config";
 
-export function resolvePlugin(): Plugin {
+/**
+ * The {@link resolvePlugin} options.
+ */
+export interface ResolvePluginOptions {
+  /** Bundle the node_modules dependencies instead of leaving them external */
+  bundleNodeModules?: boolean;
+  /** The packages to always leave external */
+  external?: string[];
+  /** The output format, ESM prefers the `import` condition of the package
+   * exports; defaults to cjs */
+  format?: FiremynaOutputFormat;
+  /** The import paths substitutions, applied before resolving. The relative
+   * paths must be resolved against the working directory beforehand */
+  alias?: Record<string, string>;
+  /** The workspace packages names, always bundled even if symlinked into
+   * node_modules */
+  workspacePackages?: string[];
+  /** The tsconfig `paths` patterns, the matching imports are resolved by
+   * esbuild using the tsconfig unless mapped into node_modules */
+  tsconfigPaths?: string[];
+}
+
+export function resolvePlugin({
+  bundleNodeModules,
+  external: externalPackages = [],
+  format = "cjs",
+  alias = {},
+  workspacePackages = [],
+  tsconfigPaths = [],
+}: ResolvePluginOptions = {}): Plugin {
+  // @ts-ignore: fs is fine,
+  const fileSystem = new CachedInputFileSystem(fs, 4000);
   const resolver = ResolverFactory.createResolver({
-    // @ts-ignore: fs is fine,
-    fileSystem: new CachedInputFileSystem(fs, 4000),
+    fileSystem,
     extensions: [".js", ".ts", ".jsx", ".tsx"],
-    conditionNames: ["default", "node", "require"],
+    conditionNames: [
+      "default",
+      "node",
+      format === "esm" ? "import" : "require",
+    ],
+  });
+  // Ignores the package exports, so package.json is found even if
+  // the package doesn't export it
+  const pkgResolver = ResolverFactory.createResolver({
+    fileSystem,
+    exportsFields: [],
   });
 
   return {
     name: "node-resolve",
-    setup: ({ onResolve }) => {
-      onResolve({ filter: /.*/ }, ({ resolveDir, path }) => {
+    setup: ({ onResolve, resolve: esbuildResolve }) => {
+      onResolve({ filter: /.*/ }, async (args) => {
+        const { resolveDir, kind, importer, pluginData } = args;
+        // Let esbuild resolve the path mapped with the tsconfig paths
+        if (pluginData?.tsconfigPath) return undefined;
+
+        const path = aliasPath(args.path, alias);
+        const tsconfigPath = tsconfigPaths.some((pattern) =>
+          pathPatternMatches(pattern, path)
+        );
+
+        if (tsconfigPath) {
+          const mapped = await esbuildResolve(path, {
+            resolveDir,
+            kind,
+            importer,
+            pluginData: { tsconfigPath: true },
+          });
+          if (!mapped.errors.length && !mapped.path.includes("node_modules"))
+            return {
+              path: mapped.path,
+              namespace: mapped.namespace,
+              external: mapped.external,
+            };
+        }
+
         return new Promise((resolve, reject) => {
           const context = {};
           const resolveContext = {};
 
-          if (builtinModules.some((module) => path.startsWith(module))) {
+          if (
+            builtinModules.some((module) => path.startsWith(module)) ||
+            externalPackages.some(
+              (pkg) => path === pkg || path.startsWith(pkg + "/")
+            )
+          ) {
             resolve({ path, external: true });
             return;
           }
@@ -30,11 +102,40 @@ export function resolvePlugin(): Plugin {
             path,
             resolveContext,
             (err, resolved) => {
-              if (err || !resolved)
-                return reject(
-                  err || new Error(`Cannot resolve ${path} at ${resolveDir}`)
+              if (err || !resolved) {
+                // Let esbuild resolve the aliased and tsconfig paths
+                if (tsconfigPath || path !== args.path)
+                  return resolve(undefined);
+
+                const fail = () =>
+                  reject(
+                    err || new Error(`Cannot resolve ${path} at ${resolveDir}`)
+                  );
+
+                if (
+                  bundleNodeModules ||
+                  !isPackagePath(path) ||
+                  workspacePackages.includes(packageName(path))
+                )
+                  return fail();
+
+                // Keep the installed packages that can't be resolved here
+                // (i.e. with the missing exports condition) external for
+                // Node.js
+                return pkgResolver.resolve(
+                  context,
+                  resolveDir,
+                  `${packageName(path)}/package.json`,
+                  resolveContext,
+                  (pkgErr) =>
+                    pkgErr ? fail() : resolve({ path, external: true })
                 );
-              const external = resolved.includes("node_modules");
+              }
+
+              const external =
+                !bundleNodeModules &&
+                resolved.includes("node_modules") &&
+                !workspacePackages.includes(packageName(path));
               resolve({
                 path: external ? path : resolved,
                 external,
@@ -46,3 +147,82 @@ export function resolvePlugin(): Plugin {
     },
   };
 }
+
+/**
+ * Substitutes the import path using the alias map. The alias key matches
+ * the whole path or its leading segments.
+ *
+ * @param path - the import path
+ * @param alias - the alias map
+ * @returns the substituted path
+ */
+function aliasPath(path: string, alias: Record<string, string>): string {
+  const key = Object.keys(alias).find(
+    (key) => path === key || path.startsWith(key + "/")
+  );
+  return key ? alias[key] + path.slice(key.length) : path;
+}
+
+/**
+ * Reads the `paths` patterns from the tsconfig, following `extends`.
+ *
+ * @param tsconfigPath - the tsconfig.json path
+ * @returns the patterns or an empty array if the tsconfig is missing
+ */
+export function readTsconfigPaths(tsconfigPath: string): string[] {
+  const { config, error } = ts.readConfigFile(tsconfigPath, ts.sys.readFile);
+  if (error) return [];
+
+  const { options } = ts.parseJsonConfigFileContent(
+    config,
+    // Skip listing the project files, only the options are needed
+    { ...ts.sys, readDirectory: () => [] },
+    dirname(tsconfigPath)
+  );
+  return Object.keys(options.paths || {});
+}
+
+/**
+ * Checks if the import path matches the tsconfig `paths` pattern. The pattern
+ * may contain a single `*` wildcard.
+ *
+ * @param pattern - the pattern to match
+ * @param path - the import path
+ * @returns true if the path matches
+ */
+function pathPatternMatches(pattern: string, path: string): boolean {
+  const index = pattern.indexOf("*");
+  if (index === -1) return pattern === path;
+
+  const prefix = pattern.slice(0, index);
+  const suffix = pattern.slice(index + 1);
+  return (
+    path.length >= prefix.length + suffix.length &&
+    path.startsWith(prefix) &&
+    path.endsWith(suffix)
+  );
+}
+
+/**
+ * Checks if the import path is a bare package specifier, i.e. not a relative
+ * or an absolute path.
+ *
+ * @param path - the import path
+ * @returns true if the path is a package path
+ */
+function isPackagePath(path: string): boolean {
+  return !/^\.{1,2}(\/|$)/.test(path) && !isAbsolute(path);
+}
+
+/**
+ * Extracts the package name from the import path.
+ *
+ * @param path - the import path (i.e. `@acme/shared/utils`)
+ * @returns the package name (i.e. `@acme/shared`)
+ */
+function packageName(path: string): string {
+  return path
+    .split("/")
+    .slice(0, path.startsWith("@") ? 2 : 1)
+    .join("/");
+}
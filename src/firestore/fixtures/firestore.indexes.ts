@@ -0,0 +1,20 @@
+import { defineFirestoreIndexes } from "../..";
+
+interface Post {
+  authorId: string;
+  tags: string[];
+  stats: { likes: number };
+  publishedAt: Date;
+}
+
+export default defineFirestoreIndexes<{ posts: Post }>({
+  indexes: [
+    {
+      collection: "posts",
+      fields: [
+        { field: "authorId", order: "asc" },
+        { field: "stats.likes", order: "desc" },
+      ],
+    },
+  ],
+});
@@ -0,0 +1,267 @@
+import { copyFile, writeFile } from "fs/promises";
+import { extname, resolve } from "path";
+import { FiremynaBuildConfig } from "../build";
+import { importModule } from "../config";
+
+/**
+ * The Firestore indexes file name in the build directory.
+ */
+export const firestoreIndexesName = "firestore.indexes.json";
+
+/**
+ * The Firestore schema, the collection documents types by the collection id.
+ */
+export type FiremynaFirestoreSchema = Record<string, unknown>;
+
+/**
+ * The document field path, i.e. `address.city`. Recurses into the nested plain
+ * objects up to 4 levels deep and skips the methods. The unknown document
+ * allows any path.
+ */
+export type FiremynaFieldPath<
+  Doc,
+  Depth extends unknown[] = [],
+> = unknown extends Doc
+  ? string
+  : Depth["length"] extends 4
+  ? never
+  : {
+      [Key in keyof Doc & string]: NonNullable<Doc[Key]> extends Function
+        ? never
+        : NonNullable<Doc[Key]> extends Date | unknown[]
+        ? Key
+        : NonNullable<Doc[Key]> extends object
+        ?
+            | Key
+            | `${Key}.${FiremynaFieldPath<
+                NonNullable<Doc[Key]>,
+                [...Depth, 1]
+              >}`
+        : Key;
+    }[keyof Doc & string];
+
+/**
+ * The index query scope. Defaults to `collection`.
+ */
+export type FiremynaFirestoreQueryScope = "collection" | "collectionGroup";
+
+/**
+ * The index field order or array config.
+ */
+export type FiremynaFirestoreIndexMode =
+  | { order: "asc" | "desc" }
+  | { arrayConfig: "contains" };
+
+/**
+ * The composite index field.
+ */
+export type FiremynaFirestoreIndexField<Doc> = {
+  /** The document field path */
+  field: FiremynaFieldPath<Doc>;
+} & FiremynaFirestoreIndexMode;
+
+/**
+ * The composite index.
+ */
+export interface FiremynaFirestoreIndex<
+  Schema extends FiremynaFirestoreSchema,
+  Collection extends keyof Schema & string,
+> {
+  /** The collection id */
+  collection: Collection;
+  /** The index query scope. Defaults to `collection`. */
+  queryScope?: FiremynaFirestoreQueryScope;
+  /** The indexed fields */
+  fields: FiremynaFirestoreIndexField<Schema[Collection]>[];
+}
+
+/**
+ * The single-field index override.
+ */
+export interface FiremynaFirestoreFieldOverride<
+  Schema extends FiremynaFirestoreSchema,
+  Collection extends keyof Schema & string,
+> {
+  /** The collection id */
+  collection: Collection;
+  /** The document field path */
+  field: FiremynaFieldPath<Schema[Collection]>;
+  /** If to enable the TTL policy for the field */
+  ttl?: boolean;
+  /** The field indexes. Set an empty array to disable the indexing. */
+  indexes: Array<
+    FiremynaFirestoreIndexMode & {
+      /** The index query scope. Defaults to `collection`. */
+      queryScope?: FiremynaFirestoreQueryScope;
+    }
+  >;
+}
+
+/**
+ * The Firestore indexes definition.
+ */
+export interface FiremynaFirestoreIndexes<
+  Schema extends FiremynaFirestoreSchema = FiremynaFirestoreSchema,
+> {
+  /** The composite indexes */
+  indexes: Array<
+    {
+      [Collection in keyof Schema & string]: FiremynaFirestoreIndex<
+        Schema,
+        Collection
+      >;
+    }[keyof Schema & string]
+  >;
+  /** The single-field indexes overrides */
+  fieldOverrides?: Array<
+    {
+      [Collection in keyof Schema & string]: FiremynaFirestoreFieldOverride<
+        Schema,
+        Collection
+      >;
+    }[keyof Schema & string]
+  >;
+}
+
+/**
+ * The firestore.indexes.json contents.
+ */
+export interface FiremynaFirestoreIndexesJSON {
+  indexes: Array<{
+    collectionGroup: string;
+    queryScope: FiremynaFirestoreIndexesJSONQueryScope;
+    fields: Array<{ fieldPath: string } & FiremynaFirestoreIndexesJSONMode>;
+  }>;
+  fieldOverrides: Array<{
+    collectionGroup: string;
+    fieldPath: string;
+    ttl?: boolean;
+    indexes: Array<
+      {
+        queryScope: FiremynaFirestoreIndexesJSONQueryScope;
+      } & FiremynaFirestoreIndexesJSONMode
+    >;
+  }>;
+}
+
+type FiremynaFirestoreIndexesJSONQueryScope = "COLLECTION" | "COLLECTION_GROUP";
+
+type FiremynaFirestoreIndexesJSONMode =
+  | { order: "ASCENDING" | "DESCENDING" }
+  | { arrayConfig: "CONTAINS" };
+
+/**
+ * Defines the Firestore indexes. Pass the schema type to check
+ * the collections and the fields paths:
+ *
+ * ```ts
+ * export default defineFirestoreIndexes<{ posts: Post }>({
+ *   indexes: [
+ *     {
+ *       collection: "posts",
+ *       fields: [
+ *         { field: "authorId", order: "asc" },
+ *         { field: "publishedAt", order: "desc" },
+ *       ],
+ *     },
+ *   ],
+ * });
+ * ```
+ *
+ * @param indexes - the Firestore indexes definition
+ * @returns the Firestore indexes definition
+ */
+export function defineFirestoreIndexes<
+  Schema extends FiremynaFirestoreSchema = FiremynaFirestoreSchema,
+>(indexes: FiremynaFirestoreIndexes<Schema>): FiremynaFirestoreIndexes<Schema> {
+  return indexes;
+}
+
+/**
+ * Compiles the Firestore indexes definition to firestore.indexes.json.
+ *
+ * @param definition - the Firestore indexes definition
+ * @returns the firestore.indexes.json contents
+ */
+export function compileFirestoreIndexes<Schema extends FiremynaFirestoreSchema>(
+  definition: FiremynaFirestoreIndexes<Schema>
+): FiremynaFirestoreIndexesJSON {
+  return {
+    indexes: definition.indexes.map((index) => ({
+      collectionGroup: index.collection,
+      queryScope: queryScopeJSON(index.queryScope),
+      fields: index.fields.map((field) => ({
+        fieldPath: field.field,
+        ...indexModeJSON(field),
+      })),
+    })),
+    fieldOverrides: (definition.fieldOverrides || []).map((override) => ({
+      collectionGroup: override.collection,
+      fieldPath: override.field,
+      ...(override.ttl !== undefined && { ttl: override.ttl }),
+      indexes: override.indexes.map((index) => ({
+        queryScope: queryScopeJSON(index.queryScope),
+        ...indexModeJSON(index),
+      })),
+    })),
+  };
+}
+
+/**
+ * Writes firestore.indexes.json into the build directory. The JSON file is
+ * copied as is, while the TypeScript or JavaScript module is evaluated and
+ * its default export compiled.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @returns promise to the operation complete
+ */
+export async function writeFirestoreIndexes(
+  buildConfig: FiremynaBuildConfig
+): Promise<void> {
+  const { cwd, config, paths } = buildConfig;
+  const indexesPath =
+    typeof config.firestore === "object" && config.firestore.indexesPath;
+  if (!indexesPath) return;
+
+  const path = resolve(cwd, indexesPath);
+  const outPath = resolve(cwd, paths.appEnvBuild, firestoreIndexesName);
+  if (extname(path) === ".json") return copyFile(path, outPath);
+
+  const indexesModule = await importModule<{
+    default?: FiremynaFirestoreIndexes;
+  }>(path);
+  if (!indexesModule.default)
+    throw new Error("The Firestore indexes module must export default");
+
+  await writeFile(
+    outPath,
+    JSON.stringify(compileFirestoreIndexes(indexesModule.default), null, 2)
+  );
+}
+
+/**
+ * Converts the query scope to the firestore.indexes.json format.
+ *
+ * @param queryScope - the query scope
+ * @returns the firestore.indexes.json query scope
+ */
+function queryScopeJSON(
+  queryScope: FiremynaFirestoreQueryScope | undefined
+): FiremynaFirestoreIndexesJSONQueryScope {
+  return queryScope === "collectionGroup" ? "COLLECTION_GROUP" : "COLLECTION";
+}
+
+/**
+ * Converts the index order or array config to the firestore.indexes.json
+ * format.
+ *
+ * @param mode - the index order or array config
+ * @returns the firestore.indexes.json order or array config
+ */
+function indexModeJSON(
+  mode: FiremynaFirestoreIndexMode
+): FiremynaFirestoreIndexesJSONMode {
+  return "arrayConfig" in mode
+    ? { arrayConfig: "CONTAINS" }
+    : { order: mode.order === "desc" ? "DESCENDING" : "ASCENDING" };
+}
@@ -0,0 +1,188 @@
+import { mkdir, readFile, rm } from "fs/promises";
+import { resolve } from "path";
+import {
+  compileFirestoreIndexes,
+  defineFirestoreIndexes,
+  firestoreIndexesName,
+  writeFirestoreIndexes,
+} from ".";
+import { FiremynaBuildConfig } from "../build";
+import { afterEach, describe, it, expect } from "vitest";
+
+describe("firestore", () => {
+  describe("compileFirestoreIndexes", () => {
+    it("compiles the indexes definition", () => {
+      interface User {
+        name: string;
+        roles: string[];
+        address: { city: string; zip?: string };
+        createdAt: Date;
+      }
+
+      expect(
+        compileFirestoreIndexes(
+          defineFirestoreIndexes<{ users: User }>({
+            indexes: [
+              {
+                collection: "users",
+                fields: [
+                  { field: "address.city", order: "asc" },
+                  { field: "createdAt", order: "desc" },
+                ],
+              },
+              {
+                collection: "users",
+                queryScope: "collectionGroup",
+                fields: [
+                  { field: "roles", arrayConfig: "contains" },
+                  { field: "name", order: "asc" },
+                ],
+              },
+            ],
+            fieldOverrides: [
+              {
+                collection: "users",
+                field: "createdAt",
+                ttl: true,
+                indexes: [],
+              },
+              {
+                collection: "users",
+                field: "name",
+                indexes: [
+                  { order: "asc" },
+                  { order: "asc", queryScope: "collectionGroup" },
+                ],
+              },
+            ],
+          })
+        )
+      ).toEqual({
+        indexes: [
+          {
+            collectionGroup: "users",
+            queryScope: "COLLECTION",
+            fields: [
+              { fieldPath: "address.city", order: "ASCENDING" },
+              { fieldPath: "createdAt", order: "DESCENDING" },
+            ],
+          },
+          {
+            collectionGroup: "users",
+            queryScope: "COLLECTION_GROUP",
+            fields: [
+              { fieldPath: "roles", arrayConfig: "CONTAINS" },
+              { fieldPath: "name", order: "ASCENDING" },
+            ],
+          },
+        ],
+        fieldOverrides: [
+          {
+            collectionGroup: "users",
+            fieldPath: "createdAt",
+            ttl: true,
+            indexes: [],
+          },
+          {
+            collectionGroup: "users",
+            fieldPath: "name",
+            indexes: [
+              { queryScope: "COLLECTION", order: "ASCENDING" },
+              { queryScope: "COLLECTION_GROUP", order: "ASCENDING" },
+            ],
+          },
+        ],
+      });
+    });
+
+    it("rejects the unknown collections and fields paths", () => {
+      interface Post {
+        title: string;
+        stats: { likes: number };
+      }
+
+      defineFirestoreIndexes<{ posts: Post }>({
+        indexes: [
+          {
+            // @ts-expect-error: the collection is not in the schema
+            collection: "comments",
+            fields: [{ field: "title", order: "asc" }],
+          },
+          {
+            collection: "posts",
+            // @ts-expect-error: the field path is not in the document
+            fields: [{ field: "stats.views", order: "asc" }],
+          },
+        ],
+        fieldOverrides: [
+          {
+            collection: "posts",
+            // @ts-expect-error: the field path is not in the document
+            field: "author",
+            indexes: [],
+          },
+        ],
+      });
+    });
+  });
+
+  describe("writeFirestoreIndexes", () => {
+    const cwd = resolve(__dirname, "fixtures");
+
+    afterEach(() =>
+      rm(resolve(cwd, "build"), { recursive: true, force: true })
+    );
+
+    function buildConfig(indexesPath: string): FiremynaBuildConfig {
+      return {
+        project: undefined,
+        cwd,
+        appEnv: "production",
+        mode: "build",
+        paths: {
+          cwd,
+          appEnvBuild: "build",
+          functions: { src: "functions", build: "build/functions" },
+          hosting: { build: "build/hosting" },
+        },
+        config: { node: "18", format: "ts", firestore: { indexesPath } },
+        renderer: false,
+      };
+    }
+
+    const readBuilt = async () =>
+      JSON.parse(
+        await readFile(resolve(cwd, "build", firestoreIndexesName), "utf8")
+      );
+
+    it("compiles the TypeScript indexes module", async () => {
+      await rm(resolve(cwd, "build"), { recursive: true, force: true });
+      await mkdir(resolve(cwd, "build"));
+      await writeFirestoreIndexes(buildConfig("firestore.indexes.ts"));
+      expect(await readBuilt()).toEqual({
+        indexes: [
+          {
+            collectionGroup: "posts",
+            queryScope: "COLLECTION",
+            fields: [
+              { fieldPath: "authorId", order: "ASCENDING" },
+              { fieldPath: "stats.likes", order: "DESCENDING" },
+            ],
+          },
+        ],
+        fieldOverrides: [],
+      });
+    });
+
+    it("copies the JSON indexes", async () => {
+      await rm(resolve(cwd, "build"), { recursive: true, force: true });
+      await mkdir(resolve(cwd, "build"));
+      await writeFirestoreIndexes(buildConfig("firestore.indexes.json"));
+      expect(await readBuilt()).toEqual(
+        JSON.parse(
+          await readFile(resolve(cwd, "firestore.indexes.json"), "utf8")
+        )
+      );
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { extname } from "path";
+import ts from "typescript";
+
+/**
+ * The function module exports.
+ */
+export interface FiremynaModuleExports {
+  /** If the module has the default export */
+  default: boolean;
+  /** The named value exports */
+  named: string[];
+}
+
+/**
+ * Statically analyzes the module source code and lists its value exports.
+ * Type-only exports are ignored.
+ *
+ * @param path - the module source path
+ * @param source - the module source code
+ * @returns the module exports
+ */
+export function parseModuleExports(
+  path: string,
+  source: string
+): FiremynaModuleExports {
+  const sourceFile = parseSourceFile(path, source);
+  const exports: FiremynaModuleExports = { default: false, named: [] };
+
+  const add = (name: string) =>
+    name === "default" ? (exports.default = true) : exports.named.push(name);
+
+  sourceFile.statements.forEach((statement) => {
+    if (ts.isExportAssignment(statement)) {
+      if (!statement.isExportEquals) exports.default = true;
+      return;
+    }
+
+    if (ts.isExportDeclaration(statement)) {
+      if (statement.isTypeOnly) return;
+
+      const clause = statement.exportClause;
+      if (!clause)
+        throw new Error(
+          `The function file ${path} uses export * that can not be analyzed, export the functions by name`
+        );
+
+      if (ts.isNamespaceExport(clause)) return add(clause.name.text);
+
+      clause.elements.forEach((element) => {
+        if (!element.isTypeOnly) add(element.name.text);
+      });
+      return;
+    }
+
+    const modifiers = ts.canHaveModifiers(statement)
+      ? ts.getModifiers(statement)
+      : undefined;
+    if (
+      !modifiers?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword) ||
+      modifiers.some((m) => m.kind === ts.SyntaxKind.DeclareKeyword)
+    )
+      return;
+
+    if (modifiers.some((m) => m.kind === ts.SyntaxKind.DefaultKeyword)) {
+      exports.default = true;
+      return;
+    }
+
+    if (ts.isVariableStatement(statement)) {
+      statement.declarationList.declarations.forEach((declaration) => {
+        if (ts.isIdentifier(declaration.name)) add(declaration.name.text);
+      });
+    } else if (
+      (ts.isFunctionDeclaration(statement) ||
+        ts.isClassDeclaration(statement)) &&
+      statement.name
+    ) {
+      add(statement.name.text);
+    }
+  });
+
+  return exports;
+}
+
+/**
+ * Parses the source code into the TypeScript source file.
+ *
+ * @param path - the source path
+ * @param source - the source code
+ * @returns the source file
+ */
+export function parseSourceFile(path: string, source: string): ts.SourceFile {
+  return ts.createSourceFile(
+    path,
+    source,
+    ts.ScriptTarget.Latest,
+    true,
+    scriptKind(path)
+  );
+}
+
+/**
+ * Detects the TypeScript script kind from the file extension.
+ *
+ * @param path - the source path
+ * @returns the script kind
+ */
+function scriptKind(path: string): ts.ScriptKind {
+  switch (extname(path)) {
+    case ".ts":
+      return ts.ScriptKind.TS;
+    case ".tsx":
+      return ts.ScriptKind.TSX;
+    case ".jsx":
+      return ts.ScriptKind.JSX;
+    default:
+      return ts.ScriptKind.JS;
+  }
+}
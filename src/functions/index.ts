@@ -1,17 +1,32 @@
 import chokidar from "chokidar";
-import { build, BuildIncremental, BuildResult, OutputFile } from "esbuild";
+import {
+  build,
+  BuildIncremental,
+  BuildOptions,
+  BuildResult,
+  OutputFile,
+  Plugin,
+} from "esbuild";
+import { existsSync, readdirSync, readFileSync } from "fs";
 import { readdir, readFile, stat } from "fs/promises";
-import { sweep } from "js-fns";
 import {
   basename,
   extname,
+  join,
   normalize,
   parse as parsePath,
   relative,
   resolve,
+  sep,
 } from "path";
 import { FiremynaBuildConfig } from "../build";
-import { resolvePlugin } from "../esbuild/resolve";
+import { FiremynaFunctionOverride, FiremynaOutputFormat } from "../config";
+import {
+  readTsconfigPaths,
+  resolvePlugin,
+  ResolvePluginOptions,
+} from "../esbuild/resolve";
+import { parseModuleExports } from "./exports";
 
 /**
  * Firebase Function defenition.
@@ -21,6 +36,142 @@ export interface FiremynaFunction {
   path: string;
   /** The function name */
   name: string;
+  /** The function group path, i.e. `["billing"]` for `billing/charge.ts`.
+   * Top-level functions have no group. */
+  group?: string[];
+  /** The named exports deployed as separate functions, prefixed with
+   * the function name. Set only in the named exports mode when the file has
+   * no default export. */
+  exports?: string[];
+}
+
+/**
+ * Generates the function id used to reference it in the config, i.e.
+ * `billing.charge`.
+ *
+ * @param fn - the function
+ * @returns the function id
+ */
+export function functionId(fn: FiremynaFunction): string {
+  return (fn.group || []).concat(fn.name).join(".");
+}
+
+/**
+ * Generates the function deployed name, that is also used as the build file
+ * name, i.e. `billing-charge`.
+ *
+ * @param fn - the function
+ * @returns the function deployed name
+ */
+export function functionDeployName(fn: FiremynaFunction): string {
+  return (fn.group || []).concat(fn.name).join("-");
+}
+
+/**
+ * Tests if the function matches the only functions list item, that is either
+ * the function id (`billing.charge`) or a group (`billing`). The functions
+ * with named exports also match the export ids (`users.onCreate`).
+ *
+ * @param fn - the function
+ * @param only - the only functions list item
+ * @returns true if the function matches
+ */
+export function functionMatches(fn: FiremynaFunction, only: string): boolean {
+  const id = functionId(fn);
+  const ids = fn.exports ? fn.exports.map((name) => `${id}.${name}`) : [id];
+  return ids.some((id) => id === only || id.startsWith(only + "."));
+}
+
+/**
+ * Resolves the function override by merging all overrides which keys match
+ * the function id.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @param id - the function id (i.e. `billing.charge`)
+ * @returns the function override
+ */
+export function functionOverride(
+  buildConfig: FiremynaBuildConfig,
+  id: string
+): FiremynaFunctionOverride {
+  const overrides = buildConfig.config.functions?.overrides || {};
+  return Object.entries(overrides).reduce<FiremynaFunctionOverride>(
+    (acc, [pattern, override]) =>
+      functionPatternMatches(pattern, id) ? { ...acc, ...override } : acc,
+    {}
+  );
+}
+
+/**
+ * Checks if the function id matches the config pattern (the override or
+ * budget key).
+ *
+ * @param pattern - the function id or glob
+ * @param id - the function id
+ * @returns true if the id matches the pattern
+ */
+export function functionPatternMatches(pattern: string, id: string): boolean {
+  return overridePatternRegExp(pattern).test(id);
+}
+
+/**
+ * Converts the override key to the regexp. `*` matches a single id segment
+ * and `**` matches any number of segments.
+ *
+ * @param pattern - the override key
+ * @returns the override key regexp
+ */
+function overridePatternRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("**")
+    .map((part) =>
+      part
+        .split("*")
+        .map((chunk) => chunk.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join("[^.]*")
+    )
+    .join(".*");
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Analyzes the function module exports when the named exports mode is
+ * enabled. If the module has no default export, its named exports become
+ * separate functions.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @param fn - the function
+ * @returns promise to the function with the resolved exports
+ */
+export async function resolveFunctionExports(
+  buildConfig: FiremynaBuildConfig,
+  fn: FiremynaFunction
+): Promise<FiremynaFunction> {
+  const { functionsNamedExports, onlyFunctions } = buildConfig.config;
+  if (!functionsNamedExports) return fn;
+
+  const source = await readFile(resolve(buildConfig.cwd, fn.path), "utf8");
+  const exports = parseModuleExports(fn.path, source);
+  if (exports.default) return fn;
+
+  if (!exports.named.length)
+    throw new Error(
+      `The function file ${fn.path} exports nothing deployable, add the default export or named exports`
+    );
+
+  const fnWithExports = { ...fn, exports: exports.named };
+  if (!onlyFunctions || onlyFunctions.some((only) => functionMatches(fn, only)))
+    return fnWithExports;
+
+  // Pick only the listed exports
+  return {
+    ...fn,
+    exports: exports.named.filter((name) =>
+      onlyFunctions.some((only) =>
+        functionMatches({ ...fn, exports: [name] }, only)
+      )
+    ),
+  };
 }
 
 export type FiremynaFunctionsBuild = Record<string, BuildResult>;
@@ -35,15 +186,25 @@ export async function buildFunctions(
 ): Promise<FiremynaFunctionsBuild> {
   const fns = await listFunctions(buildConfig);
   const indexContents = stringifyFunctionsIndex(fns, buildConfig);
+  const defaultsContents = stringifyFunctionsDefaults(buildConfig);
   const build: FiremynaFunctionsBuild = {};
 
+  // The functions with build overrides can't share the split build
+  const splitFns = buildConfig.config.functions?.splitting
+    ? fns.filter(
+        (fn) =>
+          !functionBuildOverridden(
+            functionOverride(buildConfig, functionId(fn))
+          )
+      )
+    : [];
+
   await Promise.all(
     fns
+      .filter((fn) => !splitFns.includes(fn))
       .map(async (fn) => {
-        const file = `${fn.name}.cjs`;
-        const resolvePath = parsePath(
-          relative(buildConfig.cwd, resolve(buildConfig.cwd, fn.path))
-        ).dir;
+        const file = outputFile(buildConfig, functionDeployName(fn));
+        const resolvePath = resolve(buildConfig.cwd, parsePath(fn.path).dir);
         build[file] = await buildFile({
           file,
           input: {
@@ -54,11 +215,17 @@ export async function buildFunctions(
           resolvePath,
           bundle: true,
           buildConfig,
+          override: functionOverride(buildConfig, functionId(fn)),
         });
       })
       .concat([
+        splitFns.length &&
+          buildSplitFunctions(buildConfig, splitFns).then((result) => {
+            Object.assign(build, result);
+          }),
+
         buildFile({
-          file: "index.cjs",
+          file: outputFile(buildConfig, "index"),
           input: {
             type: "contents",
             contents: indexContents,
@@ -66,14 +233,14 @@ export async function buildFunctions(
           resolvePath: buildConfig.paths.functions.src,
           buildConfig,
         }).then((result) => {
-          build["index.cjs"] = result;
+          build[outputFile(buildConfig, "index")] = result;
         }),
 
         buildConfig.config.functionsInitPath &&
           readFile(buildConfig.config.functionsInitPath, "utf8").then(
             (contents) =>
               buildFile({
-                file: "init.cjs",
+                file: outputFile(buildConfig, "init"),
                 input: {
                   type: "contents",
                   contents,
@@ -82,15 +249,150 @@ export async function buildFunctions(
                   .dir,
                 buildConfig: buildConfig,
               }).then((result) => {
-                build["init.cjs"] = result;
+                build[outputFile(buildConfig, "init")] = result;
               })
           ),
+
+        defaultsContents &&
+          buildFile({
+            file: outputFile(buildConfig, "defaults"),
+            input: {
+              type: "contents",
+              contents: defaultsContents,
+            },
+            resolvePath: buildConfig.paths.functions.src,
+            buildConfig,
+          }).then((result) => {
+            build[outputFile(buildConfig, "defaults")] = result;
+          }),
       ] as Promise<void>[])
   );
 
   return build;
 }
 
+/**
+ * Builds the functions in a single esbuild pass with code splitting, so
+ * the modules shared between the functions are emitted once as hashed
+ * chunks. esbuild can split only ESM, so with the cjs output format the files
+ * are converted to CommonJS one by one. The inline source maps of the split
+ * build are consumed by the conversion, so the final source maps point to
+ * the sources.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @param fns - the functions to build
+ * @returns promise to the build result keyed by the output file path
+ * relative to the functions build directory
+ */
+async function buildSplitFunctions(
+  buildConfig: FiremynaBuildConfig,
+  fns: FiremynaFunction[]
+): Promise<FiremynaFunctionsBuild> {
+  const format = outputFormat(buildConfig);
+  const target = `node${buildConfig.config.node}`;
+  const buildPath = resolve(buildConfig.cwd, buildConfig.paths.functions.build);
+  const outputOptions = esbuildOutputOptions(buildConfig);
+
+  const splitBuild = await build({
+    bundle: true,
+    splitting: true,
+    platform: "node",
+    target,
+    format: "esm",
+    ...esbuildConfigOptions(buildConfig, format === "esm"),
+    define: esbuildDefine(buildConfig),
+    ...outputOptions,
+    // The conversion to CommonJS consumes the inline source maps
+    sourcemap:
+      format === "esm" || !outputOptions.sourcemap
+        ? outputOptions.sourcemap
+        : "inline",
+    entryPoints: Object.fromEntries(
+      fns.map((fn) => [
+        functionDeployName(fn),
+        resolve(buildConfig.cwd, fn.path),
+      ])
+    ),
+    outdir: buildPath,
+    outExtension: { ".js": outputExtension(buildConfig) },
+    chunkNames: "chunks/[name]-[hash]",
+    plugins: esbuildPlugins(buildConfig, { format }),
+    write: false,
+    metafile: true,
+  });
+
+  const codeFiles = splitBuild.outputFiles.filter(
+    (file) => !file.path.endsWith(".map")
+  );
+
+  const results = await Promise.all(
+    codeFiles.map(async (file) => {
+      const result: BuildResult =
+        format === "esm"
+          ? {
+              ...splitBuild,
+              warnings: [],
+              outputFiles: splitBuild.outputFiles.filter(
+                (output) =>
+                  output.path === file.path ||
+                  output.path === `${file.path}.map`
+              ),
+            }
+          : await build({
+              platform: "node",
+              target,
+              format: "cjs",
+              ...outputOptions,
+              outfile: file.path,
+              stdin: {
+                loader: "js",
+                contents: file.text,
+                sourcefile: file.path,
+                resolveDir: parsePath(file.path).dir,
+              },
+              allowOverwrite: true,
+              write: false,
+              metafile: true,
+              // Keep the split build metafile that lists the bundled inputs
+            }).then((converted) => ({
+              ...converted,
+              metafile: splitBuild.metafile,
+            }));
+      return [relative(buildPath, file.path), result] as const;
+    })
+  );
+
+  const splitBuildResult: FiremynaFunctionsBuild = Object.fromEntries(results);
+  // Keep the split build warnings once, the per-file results don't repeat them
+  const [firstFile] = results[0] || [];
+  if (firstFile)
+    splitBuildResult[firstFile] = {
+      ...splitBuildResult[firstFile]!,
+      warnings: splitBuild.warnings.concat(
+        splitBuildResult[firstFile]!.warnings
+      ),
+    };
+
+  return splitBuildResult;
+}
+
+/**
+ * Checks if the function override changes the build options, so
+ * the function must be built separately.
+ *
+ * @param override - the function override
+ * @returns true if any build options are overridden
+ */
+function functionBuildOverridden({
+  node,
+  external,
+  define,
+  minify,
+  bundleNodeModules,
+}: FiremynaFunctionOverride): boolean {
+  return !!(node || external?.length || define || minify || bundleNodeModules);
+}
+
 /**
  * Generates functions index file string.
  *
@@ -102,20 +404,235 @@ export function stringifyFunctionsIndex(
   list: FiremynaFunction[],
   buildConfig: FiremynaBuildConfig
 ) {
-  return (buildConfig.config.functionsInitPath ? [`import "./init.cjs";`] : [])
+  const root: FiremynaFunctionsIndexGroup = new Map();
+  const exports: string[] = [];
+  const imports: string[] = [];
+  const overriddenExports: string[] = [];
+  let endpointOverridden = false;
+
+  list.forEach((fn) =>
+    (fn.exports || ["default"]).forEach((exportName) => {
+      const fnPath = (fn.group || []).concat(fn.name);
+      if (exportName !== "default") fnPath.push(exportName);
+      const name = fnPath.pop()!;
+      const id = fnPath.concat(name).join(".");
+
+      const file = `./${outputFile(buildConfig, functionDeployName(fn))}`;
+      const endpoint = functionEndpointOverride(
+        functionOverride(buildConfig, id)
+      );
+      const entry: FiremynaFunctionsIndexEntry = {
+        id,
+        path: fn.path,
+        importName: "",
+        endpoint: endpoint && JSON.stringify(endpoint),
+      };
+      if (endpoint) endpointOverridden = true;
+
+      const group = fnPath.reduce((parent, groupName) => {
+        const child = parent.get(groupName) || new Map();
+        if (!(child instanceof Map))
+          throw new Error(
+            `The function ${child.id} (${child.path}) conflicts with the group ${child.id}`
+          );
+        parent.set(groupName, child);
+        return child;
+      }, root);
+
+      const existing = group.get(name);
+      if (existing instanceof Map)
+        throw new Error(
+          `The function ${id} (${fn.path}) conflicts with the group ${id}`
+        );
+      else if (existing)
+        throw new Error(
+          `The function ${id} is defined both in ${existing.path} and ${fn.path}`
+        );
+      group.set(name, entry);
+
+      if (!fnPath.length && !entry.endpoint) {
+        exports.push(`export { default as ${name} } from "${file}";`);
+        return;
+      }
+
+      entry.importName = fnPath.length
+        ? fnPath.concat(name).join("$")
+        : `${name}$fn`;
+      imports.push(
+        exportName === "default"
+          ? `import ${entry.importName} from "${file}";`
+          : `import { ${exportName} as ${entry.importName} } from "${file}";`
+      );
+
+      if (!fnPath.length)
+        overriddenExports.push(
+          `export const ${name} = ${stringifyFunctionsIndexEntry(entry)};`
+        );
+    })
+  );
+
+  // The defaults must be set before any function is defined
+  return (
+    buildConfig.config.functions?.applyDefaults &&
+    buildConfig.config.functions.defaults
+      ? [`import "./${outputFile(buildConfig, "defaults")}";`]
+      : []
+  )
     .concat(
-      list.map(
-        (fn) => `export { default as ${fn.name} } from "./${fn.name}.cjs";`
+      buildConfig.config.functionsInitPath
+        ? [`import "./${outputFile(buildConfig, "init")}";`]
+        : []
+    )
+    .concat(exports)
+    .concat(imports)
+    .concat(endpointOverridden ? [overrideEndpointSource] : [])
+    .concat(overriddenExports)
+    .concat(
+      Array.from(root).flatMap(([name, group]) =>
+        group instanceof Map
+          ? [`export const ${name} = ${stringifyFunctionsIndexGroup(group)};`]
+          : []
       )
     )
     .concat(
       buildConfig.renderer
-        ? [`export { default as renderer } from "./renderer";`]
+        ? [
+            `export { default as renderer } from "./${outputFile(
+              buildConfig,
+              "renderer"
+            )}";`,
+          ]
         : []
     )
     .join("\n");
 }
 
+/**
+ * Generates the functions defaults module source code. It applies
+ * the project default runtime options to 2nd gen functions.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @returns the defaults module source code if the defaults are applied at
+ * the build time
+ */
+export function stringifyFunctionsDefaults(
+  buildConfig: FiremynaBuildConfig
+): string | undefined {
+  const functionsConfig = buildConfig.config.functions;
+  if (!functionsConfig?.applyDefaults || !functionsConfig.defaults) return;
+
+  const { memory, ...defaults } = functionsConfig.defaults;
+  // 2nd gen uses binary units, i.e. 1GiB instead of 1GB
+  const options = memory
+    ? { ...defaults, memory: memory.replace(/B$/, "iB") }
+    : defaults;
+
+  return `import { setGlobalOptions } from "firebase-functions/v2";
+
+setGlobalOptions(${JSON.stringify(options)});`;
+}
+
+/**
+ * The functions index entry.
+ */
+interface FiremynaFunctionsIndexEntry {
+  /** The function id */
+  id: string;
+  /** The function source path */
+  path: string;
+  /** The local import name */
+  importName: string;
+  /** The stringified endpoint override */
+  endpoint: string | undefined;
+}
+
+/**
+ * Generates the functions index entry value source code.
+ *
+ * @param entry - the functions index entry
+ * @returns the entry value source code
+ */
+function stringifyFunctionsIndexEntry(
+  entry: FiremynaFunctionsIndexEntry
+): string {
+  return entry.endpoint
+    ? `overrideEndpoint(${entry.importName}, ${entry.endpoint})`
+    : entry.importName;
+}
+
+/**
+ * The index helper that overrides the function deploy options. Firebase CLI
+ * reads them from the function `__endpoint` property, which can't be
+ * redefined on 1st gen functions, so the function is wrapped.
+ */
+const overrideEndpointSource = `function overrideEndpoint(fn, options) {
+  const wrapped = function () {
+    return fn.apply(this, arguments);
+  };
+  Reflect.ownKeys(fn).forEach((key) => {
+    if (["length", "name", "prototype", "__endpoint"].includes(key)) return;
+    Object.defineProperty(wrapped, key, Object.getOwnPropertyDescriptor(fn, key));
+  });
+  Object.defineProperty(wrapped, "__endpoint", {
+    get: () => fn.__endpoint && Object.assign({}, fn.__endpoint, options),
+  });
+  return wrapped;
+}`;
+
+/**
+ * Converts the function override deploy options to the Firebase endpoint
+ * options.
+ *
+ * @param override - the function override
+ * @returns the endpoint options if any deploy options are overridden
+ */
+function functionEndpointOverride({
+  region,
+  memory,
+  timeoutSeconds,
+  minInstances,
+  maxInstances,
+}: FiremynaFunctionOverride): Record<string, unknown> | undefined {
+  const endpoint: Record<string, unknown> = {};
+  if (region) endpoint.region = Array.isArray(region) ? region : [region];
+  if (memory)
+    endpoint.availableMemoryMb =
+      parseInt(memory) * (memory.endsWith("GB") ? 1024 : 1);
+  if (timeoutSeconds !== undefined) endpoint.timeoutSeconds = timeoutSeconds;
+  if (minInstances !== undefined) endpoint.minInstances = minInstances;
+  if (maxInstances !== undefined) endpoint.maxInstances = maxInstances;
+  return Object.keys(endpoint).length ? endpoint : undefined;
+}
+
+/**
+ * The functions index group, maps names to the entries or nested groups.
+ */
+type FiremynaFunctionsIndexGroup = Map<
+  string,
+  FiremynaFunctionsIndexEntry | FiremynaFunctionsIndexGroup
+>;
+
+/**
+ * Generates the functions group object source code.
+ *
+ * @param group - the functions index group
+ * @returns the group object source code
+ */
+function stringifyFunctionsIndexGroup(
+  group: FiremynaFunctionsIndexGroup
+): string {
+  return `{ ${Array.from(group)
+    .map(
+      ([name, value]) =>
+        `${name}: ${
+          value instanceof Map
+            ? stringifyFunctionsIndexGroup(value)
+            : stringifyFunctionsIndexEntry(value)
+        }`
+    )
+    .join(", ")} }`;
+}
+
 /**
  * The index file regexp.
  */
@@ -127,7 +644,9 @@ const indexRegExp = /^index\.[tj]sx?$/;
 const fnRegExp = /^.+\.[tj]sx?$/;
 
 /**
- * Lists all functions in the functions directory.
+ * Lists all functions in the functions directory. Directories without index
+ * file that contain functions are groups, the functions inside of them are
+ * listed recursively.
  *
  * @param - the Firemyna config
  * @returns the list of functions
@@ -135,28 +654,52 @@ const fnRegExp = /^.+\.[tj]sx?$/;
 export async function listFunctions(
   buildConfig: FiremynaBuildConfig
 ): Promise<FiremynaFunction[]> {
-  const dir = await readdir(
-    resolve(buildConfig.cwd, buildConfig.paths.functions.src)
-  );
+  return listGroupFunctions(buildConfig, buildConfig.paths.functions.src, []);
+}
+
+/**
+ * Lists functions in the group directory.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @param dirPath - the group directory path
+ * @param group - the group path
+ * @returns the list of functions
+ */
+async function listGroupFunctions(
+  buildConfig: FiremynaBuildConfig,
+  dirPath: string,
+  group: string[]
+): Promise<FiremynaFunction[]> {
+  const dir = await readdir(resolve(buildConfig.cwd, dirPath));
+
+  const fns = await Promise.all(
+    dir.map(async (itemPath): Promise<FiremynaFunction[]> => {
+      if (itemPath.startsWith(".")) return [];
+
+      const fullPath = resolve(buildConfig.cwd, dirPath, itemPath);
+      const found = await findFunctionPath(buildConfig, fullPath);
+      if (!found) return [];
+
+      const { name } = parsePath(itemPath);
 
-  return sweep(
-    await Promise.all<FiremynaFunction | undefined>(
-      dir.map(async (itemPath) => {
-        const fullPath = resolve(
-          buildConfig.cwd,
-          buildConfig.paths.functions.src,
-          itemPath
+      if (found.type === "group")
+        return listGroupFunctions(
+          buildConfig,
+          join(dirPath, itemPath),
+          group.concat(name)
         );
-        const path = await findFunctionPath(buildConfig.cwd, fullPath);
-        if (!path) return;
 
-        const { name } = parsePath(itemPath);
-        const fn = { name, path };
+      const fn: FiremynaFunction = group.length
+        ? { name, path: found.path, group }
+        : { name, path: found.path };
 
-        if (includedFunction(buildConfig, fn)) return fn;
-      })
-    )
+      return includedFunction(buildConfig, fn)
+        ? [await resolveFunctionExports(buildConfig, fn)]
+        : [];
+    })
   );
+
+  return fns.flat();
 }
 
 export type FiremynaWatchCallback = (message: FiremynaWatchMessage) => void;
@@ -182,10 +725,17 @@ export interface FiremynaWatchMessageInit {
   event: "add" | "unlink" | "change";
 }
 
+/**
+ * Lists the functions and watches the functions directory for changes.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @param callback - the callback called with the initial list and on changes
+ * @returns promise to the watcher
+ */
 export async function watchListFunction(
   buildConfig: FiremynaBuildConfig,
   callback: FiremynaWatchCallback
-) {
+): Promise<chokidar.FSWatcher> {
   const functions = await listFunctions(buildConfig);
   callback({ type: "initial", functions });
 
@@ -195,7 +745,6 @@ export async function watchListFunction(
     ),
     {
       persistent: true,
-      depth: 1,
       ignoreInitial: true,
     }
   );
@@ -214,11 +763,14 @@ export async function watchListFunction(
         }
     }
   });
+
+  return watcher;
 }
 
 /**
  * Checks if the specified path is a function and if true, returns its
- * definition object.
+ * definition object. Files inside function directories (with index file) are
+ * considered parts of the function and ignored.
  *
  * @param buildConfig - the Firemyna build config
  * @param functionPath - the path to function to find function in
@@ -229,21 +781,103 @@ export function parseFunction(
   functionPath: string
 ): FiremynaFunction | undefined {
   const path = relative(process.cwd(), functionPath);
-  const relativePath = relative(
-    resolve(buildConfig.cwd, buildConfig.paths.functions.src),
-    functionPath
-  );
-  const parsedPath = parsePath(relativePath);
+  const srcPath = resolve(buildConfig.cwd, buildConfig.paths.functions.src);
+  const dirs = relative(srcPath, functionPath).split(sep);
+  const base = dirs.pop()!;
+
+  if (!fnRegExp.test(base) || dirs.some((dir) => dir.startsWith("."))) return;
 
-  if (parsedPath.dir) {
-    const nested = !!parsePath(parsedPath.dir).dir;
-    if (!nested && indexRegExp.test(parsedPath.base)) {
-      const name = parsedPath.dir;
-      return { name, path };
+  const isModule = !!dirs.length && indexRegExp.test(base);
+  const name = isModule ? dirs.pop()! : parsePath(base).name;
+  const group = dirs;
+
+  // Check if any of the group directories is a function directory or a helpers
+  // directory. The removed directories can't be checked, so they are trusted.
+  for (let index = 1; index <= group.length; index++) {
+    const groupPath = resolve(srcPath, ...group.slice(0, index));
+    if (hasIndexFile(groupPath)) return;
+    if (existsSync(groupPath) && !isFunctionsGroup(buildConfig, groupPath))
+      return;
+  }
+
+  return group.length ? { name, path, group } : { name, path };
+}
+
+/**
+ * Checks if the directory contains an index file.
+ *
+ * @param dirPath - the full directory path
+ * @returns true if the directory contains an index file
+ */
+function hasIndexFile(dirPath: string): boolean {
+  try {
+    return readdirSync(dirPath).some((file) => indexRegExp.test(file));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks if the directory is a functions group, i.e. it contains a function
+ * file, a function directory or a nested group. Directories with helper modules
+ * are not groups.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @param dirPath - the full directory path
+ * @returns true if the directory is a functions group
+ */
+function isFunctionsGroup(
+  buildConfig: FiremynaBuildConfig,
+  dirPath: string
+): boolean {
+  let items: string[];
+  try {
+    items = readdirSync(dirPath);
+  } catch {
+    return false;
+  }
+
+  return items.some((item) => {
+    if (item.startsWith(".")) return false;
+
+    const itemPath = resolve(dirPath, item);
+    if (fnRegExp.test(item)) return exportsFunction(buildConfig, itemPath);
+
+    let files: string[];
+    try {
+      files = readdirSync(itemPath);
+    } catch {
+      return false;
     }
-  } else if (fnRegExp.test(parsedPath.base)) {
-    const name = parsedPath.name;
-    return { name, path };
+
+    const indexFile = files.find((file) => indexRegExp.test(file));
+    return indexFile
+      ? exportsFunction(buildConfig, resolve(itemPath, indexFile))
+      : isFunctionsGroup(buildConfig, itemPath);
+  });
+}
+
+/**
+ * Checks if the module exports a function, i.e. has the default export or
+ * named exports when `functionsNamedExports` is enabled.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @param path - the full module path
+ * @returns true if the module exports a function
+ */
+function exportsFunction(
+  buildConfig: FiremynaBuildConfig,
+  path: string
+): boolean {
+  try {
+    const exports = parseModuleExports(path, readFileSync(path, "utf8"));
+    return (
+      exports.default ||
+      (!!buildConfig.config.functionsNamedExports && !!exports.named.length)
+    );
+  } catch {
+    // The unanalyzable modules (i.e. with export *) can't be functions
+    return false;
   }
 }
 
@@ -257,14 +891,25 @@ export function parseFunction(
  */
 export function includedFunction(
   {
-    config: { functionsIgnorePaths, onlyFunctions, functionsInitPath },
+    config: {
+      functionsIgnorePaths,
+      onlyFunctions,
+      functionsInitPath,
+      functionsNamedExports,
+    },
   }: FiremynaBuildConfig,
   fn: FiremynaFunction
 ): boolean {
   return (
     !isInitPath(functionsInitPath, fn.path) &&
     !functionsIgnorePaths?.find((regex) => regex.test(fn.path)) &&
-    (!onlyFunctions || onlyFunctions.includes(fn.name))
+    (!onlyFunctions ||
+      onlyFunctions.some(
+        (only) =>
+          functionMatches(fn, only) ||
+          // The only item might reference a named export
+          (!!functionsNamedExports && only.startsWith(functionId(fn) + "."))
+      ))
   );
 }
 
@@ -278,28 +923,39 @@ function isInitPath(functionsInitPath: string | undefined, path: string) {
   return functionsInitPath && normalize(path) === normalize(functionsInitPath);
 }
 
+/**
+ * The found function path or group.
+ */
+type FoundFunctionPath = { type: "function"; path: string } | { type: "group" };
+
 /**
  * Finds the function path, tests if the function is a TS/JS file or a directory
- * with TS/JS index file.
+ * with TS/JS index file. Directories without index file that contain functions
+ * are groups.
  *
- * @param cwd - the working directory
+ * @param buildConfig - the Firemyna build config
  * @param path - the full path to the possible function file or dir
- * @returns the relative path to the function file if found, otherwise undefined
+ * @returns the relative path to the function file or group if found,
+ * otherwise undefined
  * @private
  */
 async function findFunctionPath(
-  cwd: string,
+  buildConfig: FiremynaBuildConfig,
   path: string
-): Promise<string | undefined> {
+): Promise<FoundFunctionPath | undefined> {
+  const { cwd } = buildConfig;
   const stats = await stat(path);
 
   if (stats.isDirectory()) {
     const files = await readdir(path);
     const indexFile = files.find((file) => indexRegExp.test(file));
-    if (!indexFile) return;
-    return relative(cwd, resolve(path, indexFile));
+    if (!indexFile)
+      return isFunctionsGroup(buildConfig, path)
+        ? { type: "group" }
+        : undefined;
+    return { type: "function", path: relative(cwd, resolve(path, indexFile)) };
   } else if (fnRegExp.test(path)) {
-    return relative(cwd, path);
+    return { type: "function", path: relative(cwd, path) };
   }
 }
 
@@ -311,6 +967,8 @@ export interface BuildFileProps<Incremental extends boolean | undefined> {
   buildConfig: FiremynaBuildConfig;
   incremental?: Incremental;
   metafile?: boolean;
+  /** The function build options override */
+  override?: FiremynaFunctionOverride;
 }
 
 export type BuildFileInput = BuildFileInputEntry | BuildFileInputContents;
@@ -340,13 +998,18 @@ export function buildFile<Incremental extends boolean | undefined>({
   bundle,
   buildConfig,
   incremental,
+  override = {},
 }: BuildFileProps<Incremental>) {
+  const format = outputFormat(buildConfig);
   return build({
     bundle,
     platform: "node",
-    target: `node${buildConfig.config.node}`,
-    sourcemap: "external",
-    format: "cjs",
+    target: `node${override.node || buildConfig.config.node}`,
+    ...esbuildOutputOptions(buildConfig, override),
+    define: esbuildDefine(buildConfig, override),
+    format,
+    // Bundled CommonJS code expects require to be defined
+    ...esbuildConfigOptions(buildConfig, format === "esm" && !!bundle),
     outfile: getBuildFunctionsFilePath(buildConfig, file),
     entryPoints: input.type === "entry" ? [input.path] : undefined,
     stdin:
@@ -359,7 +1022,11 @@ export function buildFile<Incremental extends boolean | undefined>({
           }
         : undefined,
 
-    plugins: [resolvePlugin()],
+    plugins: esbuildPlugins(buildConfig, {
+      bundleNodeModules: override.bundleNodeModules,
+      external: override.external,
+      format,
+    }),
     allowOverwrite: true,
     write: false,
     incremental,
@@ -367,6 +1034,173 @@ export function buildFile<Incremental extends boolean | undefined>({
   });
 }
 
+/**
+ * Generates the esbuild minification and source maps options from the output
+ * config. The function override minify option takes precedence.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @param override - the function override
+ * @returns the esbuild options
+ */
+function esbuildOutputOptions(
+  buildConfig: FiremynaBuildConfig,
+  override: FiremynaFunctionOverride = {}
+): Pick<
+  BuildOptions,
+  | "minifyIdentifiers"
+  | "minifyWhitespace"
+  | "minifySyntax"
+  | "keepNames"
+  | "sourcemap"
+> {
+  const {
+    keepNames,
+    sourcemap = "external",
+    ...output
+  } = buildConfig.config.output || {};
+  const minify = override.minify ?? output.minify;
+  const { identifiers, whitespace, syntax } =
+    typeof minify === "object"
+      ? minify
+      : { identifiers: minify, whitespace: minify, syntax: minify };
+
+  return {
+    minifyIdentifiers: identifiers,
+    minifyWhitespace: whitespace,
+    minifySyntax: syntax,
+    keepNames,
+    sourcemap: sourcemap === "none" ? false : sourcemap,
+  };
+}
+
+/**
+ * Generates the esbuild define replacements: the built-in constants
+ * followed by the config and the function override replacements.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @param override - the function override
+ * @returns the esbuild define replacements
+ */
+export function esbuildDefine(
+  buildConfig: FiremynaBuildConfig,
+  override: FiremynaFunctionOverride = {}
+): Record<string, string> {
+  return {
+    FIREMYNA_APP_ENV: JSON.stringify(buildConfig.appEnv),
+    FIREMYNA_MODE: JSON.stringify(buildConfig.mode),
+    FIREMYNA_PROJECT: buildConfig.project
+      ? JSON.stringify(buildConfig.project)
+      : "undefined",
+    ...buildConfig.config.define,
+    ...override.define,
+  };
+}
+
+/**
+ * Generates the esbuild options from the esbuild config: the loaders, the
+ * tsconfig path, the banner and the footer.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @param requireBanner - if the ESM require banner must be prepended
+ * @returns the esbuild options
+ */
+function esbuildConfigOptions(
+  buildConfig: FiremynaBuildConfig,
+  requireBanner: boolean
+): Pick<BuildOptions, "loader" | "tsconfig" | "banner" | "footer"> {
+  const { loader, tsconfig, banner, footer } = buildConfig.config.esbuild || {};
+  const bannerJS = [requireBanner && esmRequireBanner, banner]
+    .filter(Boolean)
+    .join("\n");
+
+  return {
+    loader,
+    tsconfig: tsconfig && resolve(buildConfig.cwd, tsconfig),
+    banner: bannerJS ? { js: bannerJS } : undefined,
+    footer: footer ? { js: footer } : undefined,
+  };
+}
+
+/**
+ * Generates the esbuild plugins: the config plugins followed by
+ * the dependencies resolver. The config external packages and aliases,
+ * the workspace packages and the tsconfig paths are merged into the resolver
+ * options.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @param options - the resolver options
+ * @returns the esbuild plugins
+ */
+function esbuildPlugins(
+  buildConfig: FiremynaBuildConfig,
+  options: ResolvePluginOptions
+): Plugin[] {
+  const {
+    plugins = [],
+    external = [],
+    alias = {},
+    tsconfig = "tsconfig.json",
+  } = buildConfig.config.esbuild || {};
+
+  return plugins.concat(
+    resolvePlugin({
+      ...options,
+      external: external.concat(options.external || []),
+      alias: Object.fromEntries(
+        Object.entries(alias).map(([key, path]) => [
+          key,
+          path.startsWith(".") ? resolve(buildConfig.cwd, path) : path,
+        ])
+      ),
+      workspacePackages: buildConfig.workspace?.packages.map((pkg) => pkg.name),
+      tsconfigPaths: readTsconfigPaths(resolve(buildConfig.cwd, tsconfig)),
+    })
+  );
+}
+
+/**
+ * The ESM output banner that defines require, so the bundled CommonJS
+ * modules can require the external and built-in modules.
+ */
+const esmRequireBanner = `import { createRequire as __firemynaCreateRequire } from "module";
+const require = __firemynaCreateRequire(import.meta.url);`;
+
+/**
+ * Returns the functions build output format.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @returns the output format
+ */
+export function outputFormat(
+  buildConfig: FiremynaBuildConfig
+): FiremynaOutputFormat {
+  return buildConfig.config.output?.format || "cjs";
+}
+
+/**
+ * Returns the functions build output file extension.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @returns the output file extension
+ */
+export function outputExtension(buildConfig: FiremynaBuildConfig): string {
+  return outputFormat(buildConfig) === "esm" ? ".mjs" : ".cjs";
+}
+
+/**
+ * Returns the functions build output file name.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @param name - the file name without the extension (i.e. `index`)
+ * @returns the output file name
+ */
+export function outputFile(
+  buildConfig: FiremynaBuildConfig,
+  name: string
+): string {
+  return name + outputExtension(buildConfig);
+}
+
 export function getBuildFunctionsFilePath(
   buildConfig: FiremynaBuildConfig,
   file: string
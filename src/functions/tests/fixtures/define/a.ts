@@ -0,0 +1,9 @@
+import * as functions from "firebase-functions";
+
+declare const FIREMYNA_MODE: string;
+declare const VERSION: string;
+
+export default functions.https.onRequest((_request, response) => {
+  if (FIREMYNA_MODE === "dev") console.log("dev-only");
+  response.send(VERSION);
+});
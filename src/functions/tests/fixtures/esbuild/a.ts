@@ -0,0 +1,13 @@
+import * as functions from "firebase-functions";
+// @ts-ignore: The text loader is configured in the test
+import query from "./query.graphql";
+// @ts-ignore: The alias is configured in the test
+import { parseName } from "~shared/schema";
+// @ts-ignore: The path is mapped in tsconfig.esbuild.json
+import { greeting } from "@shared/greeting";
+// @ts-ignore: The virtual module is provided by the test plugin
+import answer from "virtual:answer";
+
+export default functions.https.onRequest((request, response) => {
+  response.send([query, greeting(parseName(request.query.name)), answer]);
+});
@@ -0,0 +1,5 @@
+import * as functions from "firebase-functions";
+
+export default functions.https.onRequest((_request, response) => {
+  response.send("OK");
+});
@@ -0,0 +1,7 @@
+import * as functions from "firebase-functions";
+// @ts-ignore: The package is not installed
+import { slugify } from "not-installed-package";
+
+export default functions.https.onRequest((request, response) => {
+  response.send(slugify(request.query.title));
+});
@@ -0,0 +1,11 @@
+import * as functions from "firebase-functions";
+
+export const onCreate = functions.firestore
+  .document("users/{userId}")
+  .onCreate(() => {});
+
+export const onDelete = functions.firestore
+  .document("users/{userId}")
+  .onDelete(() => {});
+
+export type User = { name: string };
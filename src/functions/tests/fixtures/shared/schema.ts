@@ -0,0 +1,4 @@
+export function parseName(data: unknown): string {
+  if (typeof data !== "string") throw new Error("The name must be a string");
+  return data;
+}
@@ -0,0 +1,4 @@
+import * as functions from "firebase-functions";
+import { parseName } from "../shared/schema";
+
+export default functions.https.onCall((data) => "Hello, " + parseName(data));
@@ -0,0 +1,7 @@
+import * as functions from "firebase-functions";
+// @ts-ignore: The package is installed by the test
+import { slugify } from "esm-only-package";
+
+export default functions.https.onRequest((request, response) => {
+  response.send(slugify(request.query.title));
+});
@@ -1,11 +1,16 @@
-import { resolve, relative } from "path";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { createRequire } from "module";
+import { dirname, resolve, relative } from "path";
 import {
   buildFunctions,
+  functionOverride,
   includedFunction,
   listFunctions,
   parseFunction,
+  stringifyFunctionsDefaults,
   stringifyFunctionsIndex,
 } from "..";
+import { parseModuleExports } from "../exports";
 import { FiremynaBuildConfig } from "../../build";
 import { FiremynaConfigResolved } from "../../config";
 import { FiremynaPaths } from "../../paths";
@@ -62,6 +67,32 @@ describe("functions", () => {
     },
   };
 
+  const groupsBuildConfig: FiremynaBuildConfig = {
+    ...buildConfig,
+    paths: {
+      ...paths,
+      functions: {
+        src: "groups",
+        build: "build/functions",
+      },
+    },
+  };
+
+  const namedBuildConfig: FiremynaBuildConfig = {
+    ...buildConfig,
+    paths: {
+      ...paths,
+      functions: {
+        src: "named",
+        build: "build/functions",
+      },
+    },
+    config: {
+      ...config,
+      functionsNamedExports: true,
+    },
+  };
+
   const buildConfigWithInit: FiremynaBuildConfig = {
     ...buildConfig,
     paths: {
@@ -98,6 +129,251 @@ describe("functions", () => {
 
       expect(typeof result["a.cjs"]?.outputFiles?.[0]?.text).toBe("string");
     });
+
+    it("applies the output minification and source maps options", async () => {
+      const result = await buildFunctions({
+        ...buildConfig,
+        config: {
+          ...config,
+          output: { minify: { whitespace: true }, sourcemap: "none" },
+        },
+      });
+
+      const files = result["c.cjs"]?.outputFiles;
+      expect(files?.map((file) => file.path)).toEqual([
+        resolve(buildPath, "functions/c.cjs"),
+      ]);
+      expect(files?.[0]?.text.trim().split("\n")).toHaveLength(1);
+    });
+
+    it("injects the compile-time constants", async () => {
+      const result = await buildFunctions({
+        ...buildConfig,
+        mode: "build",
+        paths: {
+          ...paths,
+          functions: {
+            src: "define",
+            build: "build/functions",
+          },
+        },
+        config: {
+          ...config,
+          define: { VERSION: JSON.stringify("1.2.3") },
+          output: { minify: { syntax: true } },
+        },
+      });
+
+      const text = result["a.cjs"]?.outputFiles?.find((file) =>
+        file.path.endsWith(".cjs")
+      )?.text;
+      expect(text).toContain(`"1.2.3"`);
+      expect(text).not.toContain("FIREMYNA_MODE");
+      expect(text).not.toContain("dev-only");
+    });
+
+    it("passes the esbuild config to the builds", async () => {
+      const result = await buildFunctions({
+        ...buildConfig,
+        mode: "build",
+        paths: {
+          ...paths,
+          functions: {
+            src: "esbuild",
+            build: "build/functions",
+          },
+        },
+        config: {
+          ...config,
+          esbuild: {
+            plugins: [
+              {
+                name: "virtual",
+                setup({ onResolve, onLoad }) {
+                  onResolve({ filter: /^virtual:/ }, ({ path }) => ({
+                    path,
+                    namespace: "virtual",
+                  }));
+                  onLoad({ filter: /.*/, namespace: "virtual" }, () => ({
+                    contents: "export default 42",
+                  }));
+                },
+              },
+            ],
+            loader: { ".graphql": "text" },
+            alias: { "~shared": "./shared" },
+            tsconfig: "tsconfig.esbuild.json",
+            external: ["firebase-functions"],
+            banner: "/* banner */",
+            footer: "/* footer */",
+          },
+        },
+      });
+
+      const text = result["a.cjs"]?.outputFiles?.find((file) =>
+        file.path.endsWith(".cjs")
+      )?.text;
+      expect(text).toContain("query Hello {");
+      expect(text).toContain("The name must be a string");
+      expect(text).toContain("Hello, ${name}!");
+      expect(text).toContain("42");
+      expect(text).toContain(`require("firebase-functions")`);
+      expect(text?.startsWith("/* banner */")).toBe(true);
+      expect(text).toContain("/* footer */");
+
+      const index = result["index.cjs"]?.outputFiles?.find((file) =>
+        file.path.endsWith(".cjs")
+      )?.text;
+      expect(index?.startsWith("/* banner */")).toBe(true);
+    });
+
+    it("keeps the installed unresolved packages external", async () => {
+      // The ESM-only package has no require condition to resolve
+      const pkgPath = resolve(cwd, "node_modules/esm-only-package");
+      await mkdir(pkgPath, { recursive: true });
+
+      try {
+        await writeFile(
+          resolve(pkgPath, "package.json"),
+          JSON.stringify({
+            name: "esm-only-package",
+            exports: { import: "./index.mjs" },
+          })
+        );
+        await writeFile(
+          resolve(pkgPath, "index.mjs"),
+          "export const slugify = (str) => str;\n"
+        );
+
+        const result = await buildFunctions({
+          ...buildConfig,
+          paths: {
+            ...paths,
+            functions: {
+              src: "unresolved",
+              build: "build/functions",
+            },
+          },
+        });
+
+        const text = result["a.cjs"]?.outputFiles?.find((file) =>
+          file.path.endsWith(".cjs")
+        )?.text;
+        expect(text).toContain(`require("esm-only-package")`);
+      } finally {
+        await rm(resolve(cwd, "node_modules"), {
+          recursive: true,
+          force: true,
+        });
+      }
+    });
+
+    it("fails to build the missing packages imports", async () => {
+      await expect(
+        buildFunctions({
+          ...buildConfig,
+          paths: {
+            ...paths,
+            functions: {
+              src: "missing",
+              build: "build/functions",
+            },
+          },
+        })
+      ).rejects.toThrow("not-installed-package");
+    });
+
+    it("builds ES modules with the esm output format", async () => {
+      const result = await buildFunctions({
+        ...buildConfig,
+        config: { ...config, output: { format: "esm" } },
+      });
+
+      expect(Object.keys(result).sort()).toEqual([
+        "a.mjs",
+        "b.mjs",
+        "c.mjs",
+        "d.mjs",
+        "index.mjs",
+      ]);
+
+      const index = result["index.mjs"]?.outputFiles?.find((file) =>
+        file.path.endsWith(".mjs")
+      );
+      expect(index?.text).toContain(`from "./a.mjs"`);
+      expect(index?.text).not.toContain("require(");
+    });
+
+    it("builds the shared modules as chunks with splitting", async () => {
+      const result = await buildFunctions({
+        ...buildConfig,
+        paths: {
+          ...paths,
+          functions: {
+            src: "split",
+            build: "build/functions",
+          },
+        },
+        config: {
+          ...config,
+          functions: { splitting: true },
+        },
+      });
+
+      const files = Object.keys(result).sort();
+      expect(files).toEqual([
+        "a.cjs",
+        "b.cjs",
+        expect.stringMatching(/^chunks\/chunk-\w+\.cjs$/),
+        "index.cjs",
+      ]);
+
+      const chunk = result[files[2]!]?.outputFiles?.find((file) =>
+        file.path.endsWith(".cjs")
+      );
+      expect(chunk?.text).toContain("The name must be a string");
+
+      const a = result["a.cjs"]?.outputFiles?.find((file) =>
+        file.path.endsWith(".cjs")
+      );
+      expect(a?.text).not.toContain("The name must be a string");
+      expect(a?.text).toContain(`require("./${files[2]}")`);
+
+      // Write the build to make sure the converted modules load
+      const outPath = await mkdtemp(resolve(__dirname, "fixtures/split-"));
+      try {
+        await Promise.all(
+          Object.values(result).flatMap(
+            (fileResult) =>
+              fileResult.outputFiles?.map(async (file) => {
+                const path = resolve(
+                  outPath,
+                  relative(resolve(buildPath, "functions"), file.path)
+                );
+                await mkdir(dirname(path), { recursive: true });
+                await writeFile(path, file.contents);
+              }) || []
+          )
+        );
+
+        const require = createRequire(__filename);
+        const index = require(resolve(outPath, "index.cjs"));
+        expect(await index.a.run("Sasha", {})).toBe("Hello, Sasha");
+        expect(await index.b.run("Koss", {})).toBe("Hello, Koss");
+
+        const chunkPath = resolve(outPath, files[2]!);
+        expect(
+          ["a.cjs", "b.cjs"].map(
+            (file) =>
+              require.cache[resolve(outPath, file)]?.children.some(
+                (child) => child.id === chunkPath
+              )
+          )
+        ).toEqual([true, true]);
+      } finally {
+        await rm(outPath, { recursive: true, force: true });
+      }
+    });
   });
 
   describe("stringifyFunctionsIndex", () => {
@@ -153,6 +429,237 @@ export { default as a } from "./a.cjs";
 export { default as b } from "./b.cjs";`
       );
     });
+
+    it("prepends the defaults when applied at the build time", () => {
+      const result = stringifyFunctionsIndex(
+        [
+          {
+            name: "a",
+            path: "./fixtures/mixed/a.js",
+          },
+        ],
+        {
+          ...mixedBuildConfig,
+          config: {
+            ...config,
+            functionsInitPath: resolve(process.cwd(), "fixtures/init.ts"),
+            functions: {
+              defaults: { region: "europe-west1" },
+              applyDefaults: true,
+            },
+          },
+        }
+      );
+      expect(result).toBe(
+        `import "./defaults.cjs";
+import "./init.cjs";
+export { default as a } from "./a.cjs";`
+      );
+    });
+
+    it("imports the ES modules with the esm output format", () => {
+      const result = stringifyFunctionsIndex(
+        [
+          {
+            name: "a",
+            path: "./fixtures/mixed/a.js",
+          },
+        ],
+        {
+          ...mixedBuildConfig,
+          config: {
+            ...config,
+            functionsInitPath: resolve(process.cwd(), "fixtures/init.ts"),
+            output: { format: "esm" },
+          },
+        }
+      );
+      expect(result).toBe(
+        `import "./init.mjs";
+export { default as a } from "./a.mjs";`
+      );
+    });
+
+    it("exports grouped functions as nested objects", () => {
+      const list = [
+        {
+          name: "a",
+          path: "groups/a.ts",
+        },
+        {
+          name: "charge",
+          path: "groups/billing/charge.ts",
+          group: ["billing"],
+        },
+        {
+          name: "webhook",
+          path: "groups/billing/stripe/webhook.ts",
+          group: ["billing", "stripe"],
+        },
+      ];
+      const result = stringifyFunctionsIndex(list, groupsBuildConfig);
+      expect(result).toBe(
+        `export { default as a } from "./a.cjs";
+import billing$charge from "./billing-charge.cjs";
+import billing$stripe$webhook from "./billing-stripe-webhook.cjs";
+export const billing = { charge: billing$charge, stripe: { webhook: billing$stripe$webhook } };`
+      );
+    });
+
+    it("exports the named exports grouped by the file name", () => {
+      const list = [
+        {
+          name: "hello",
+          path: "named/hello.ts",
+        },
+        {
+          name: "users",
+          path: "named/users.ts",
+          exports: ["onCreate", "onDelete"],
+        },
+      ];
+      const result = stringifyFunctionsIndex(list, namedBuildConfig);
+      expect(result).toBe(
+        `export { default as hello } from "./hello.cjs";
+import { onCreate as users$onCreate } from "./users.cjs";
+import { onDelete as users$onDelete } from "./users.cjs";
+export const users = { onCreate: users$onCreate, onDelete: users$onDelete };`
+      );
+    });
+
+    it("overrides the deploy options", () => {
+      const list = [
+        {
+          name: "a",
+          path: "groups/a.ts",
+        },
+        {
+          name: "charge",
+          path: "groups/billing/charge.ts",
+          group: ["billing"],
+        },
+      ];
+      const result = stringifyFunctionsIndex(list, {
+        ...groupsBuildConfig,
+        config: {
+          ...config,
+          functions: {
+            overrides: {
+              "billing.*": { memory: "1GB", region: "europe-west1" },
+              a: { minify: true },
+            },
+          },
+        },
+      });
+      expect(result).toContain(`export { default as a } from "./a.cjs";`);
+      expect(result).toContain(
+        `export const billing = { charge: overrideEndpoint(billing$charge, {"region":["europe-west1"],"availableMemoryMb":1024}) };`
+      );
+      expect(result).toContain("function overrideEndpoint(fn, options) {");
+    });
+
+    it("throws if the function names collide", () => {
+      const list = [
+        {
+          name: "users",
+          path: "named/users.ts",
+          exports: ["onCreate"],
+        },
+        {
+          name: "onCreate",
+          path: "named/users/onCreate.ts",
+          group: ["users"],
+        },
+      ];
+      expect(() => stringifyFunctionsIndex(list, namedBuildConfig)).toThrow(
+        "The function users.onCreate is defined both in named/users.ts and named/users/onCreate.ts"
+      );
+    });
+
+    it("throws if a function conflicts with a group", () => {
+      const list = [
+        {
+          name: "billing",
+          path: "groups/billing.ts",
+        },
+        {
+          name: "charge",
+          path: "groups/billing/charge.ts",
+          group: ["billing"],
+        },
+      ];
+      expect(() => stringifyFunctionsIndex(list, groupsBuildConfig)).toThrow(
+        "The function billing (groups/billing.ts) conflicts with the group billing"
+      );
+    });
+  });
+
+  describe("functionOverride", () => {
+    const overridesBuildConfig: FiremynaBuildConfig = {
+      ...buildConfig,
+      config: {
+        ...config,
+        functions: {
+          overrides: {
+            "**": { region: "europe-west1" },
+            "billing.*": { memory: "1GB", node: "16" },
+            "billing.stripe.webhook": { minify: true },
+          },
+        },
+      },
+    };
+
+    it("merges the matching overrides in order", () => {
+      expect(
+        functionOverride(overridesBuildConfig, "billing.stripe.webhook")
+      ).toEqual({ region: "europe-west1", minify: true });
+      expect(functionOverride(overridesBuildConfig, "billing.charge")).toEqual({
+        region: "europe-west1",
+        memory: "1GB",
+        node: "16",
+      });
+    });
+
+    it("returns an empty override if nothing matches", () => {
+      expect(functionOverride(buildConfig, "hello")).toEqual({});
+    });
+  });
+
+  describe("stringifyFunctionsDefaults", () => {
+    it("sets the global options", () => {
+      expect(
+        stringifyFunctionsDefaults({
+          ...buildConfig,
+          config: {
+            ...config,
+            functions: {
+              defaults: {
+                region: "europe-west1",
+                memory: "512MB",
+                secrets: ["API_KEY"],
+              },
+              applyDefaults: true,
+            },
+          },
+        })
+      ).toBe(
+        `import { setGlobalOptions } from "firebase-functions/v2";
+
+setGlobalOptions({"region":"europe-west1","secrets":["API_KEY"],"memory":"512MiB"});`
+      );
+    });
+
+    it("returns undefined unless the defaults are applied", () => {
+      expect(
+        stringifyFunctionsDefaults({
+          ...buildConfig,
+          config: {
+            ...config,
+            functions: { defaults: { region: "europe-west1" } },
+          },
+        })
+      ).toBeUndefined();
+    });
   });
 
   describe("listFunctions", () => {
@@ -216,7 +723,7 @@ export { default as b } from "./b.cjs";`
       ]);
     });
 
-    it("ignores non-js/ts and non-index files", async () => {
+    it("ignores non-js/ts and non-function files", async () => {
       const list = await listFunctions(randomBuildConfig);
       expect(list).toEqual([
         {
@@ -230,6 +737,40 @@ export { default as b } from "./b.cjs";`
       ]);
     });
 
+    it("lists functions in the groups", async () => {
+      const list = await listFunctions(groupsBuildConfig);
+      expect(list).toEqual([
+        {
+          name: "a",
+          path: "groups/a.ts",
+        },
+        {
+          name: "charge",
+          path: "groups/billing/charge.ts",
+          group: ["billing"],
+        },
+        {
+          name: "refund",
+          path: "groups/billing/refund/index.ts",
+          group: ["billing"],
+        },
+        {
+          name: "webhook",
+          path: "groups/billing/stripe/webhook.ts",
+          group: ["billing", "stripe"],
+        },
+        {
+          name: "users",
+          path: "groups/users/index.ts",
+        },
+      ]);
+    });
+
+    it("ignores the directories without functions", async () => {
+      const list = await listFunctions(groupsBuildConfig);
+      expect(list.some((fn) => fn.path.startsWith("groups/utils"))).toBe(false);
+    });
+
     it("allows to specify functions ignore regexps", async () => {
       const list = await listFunctions({
         ...mixedBuildConfig,
@@ -278,6 +819,74 @@ export { default as b } from "./b.cjs";`
       ]);
     });
 
+    it("allows to specify the groups to build", async () => {
+      const list = await listFunctions({
+        ...groupsBuildConfig,
+        config: {
+          ...config,
+          onlyFunctions: ["billing.stripe", "billing.charge"],
+        },
+      });
+      expect(list).toEqual([
+        {
+          name: "charge",
+          path: "groups/billing/charge.ts",
+          group: ["billing"],
+        },
+        {
+          name: "webhook",
+          path: "groups/billing/stripe/webhook.ts",
+          group: ["billing", "stripe"],
+        },
+      ]);
+    });
+
+    it("lists the named exports in the named exports mode", async () => {
+      const list = await listFunctions(namedBuildConfig);
+      expect(list).toEqual([
+        {
+          name: "hello",
+          path: "named/hello.ts",
+        },
+        {
+          name: "users",
+          path: "named/users.ts",
+          exports: ["onCreate", "onDelete"],
+        },
+      ]);
+    });
+
+    it("allows to specify the named exports to build", async () => {
+      const list = await listFunctions({
+        ...namedBuildConfig,
+        config: {
+          ...namedBuildConfig.config,
+          onlyFunctions: ["users.onDelete"],
+        },
+      });
+      expect(list).toEqual([
+        {
+          name: "users",
+          path: "named/users.ts",
+          exports: ["onDelete"],
+        },
+      ]);
+    });
+
+    it("throws if a function file exports nothing deployable", async () => {
+      await expect(
+        listFunctions({
+          ...namedBuildConfig,
+          paths: {
+            ...paths,
+            functions: { src: "named-empty", build: "build/functions" },
+          },
+        })
+      ).rejects.toThrow(
+        "The function file named-empty/types.ts exports nothing deployable"
+      );
+    });
+
     it("ignores init files", async () => {
       const list = await listFunctions(buildConfigWithInit);
       expect(list).toEqual([
@@ -343,16 +952,31 @@ export { default as b } from "./b.cjs";`
       });
     });
 
-    it("ignores nesting more than one", () => {
+    it("returns the grouped function definition", () => {
+      const pathA = resolve(cwd, "basic/hello/world/index.js");
+      expect(parseFunction(buildConfig, pathA)).toEqual({
+        name: "world",
+        path: relative(process.cwd(), pathA),
+        group: ["hello"],
+      });
+
+      const pathB = resolve(cwd, "groups/billing/stripe/webhook.ts");
+      expect(parseFunction(groupsBuildConfig, pathB)).toEqual({
+        name: "webhook",
+        path: relative(process.cwd(), pathB),
+        group: ["billing", "stripe"],
+      });
+    });
+
+    it("ignores files inside helper directories", () => {
       expect(
-        parseFunction(buildConfig, resolve(cwd, "basic/hello/world/index.js"))
+        parseFunction(groupsBuildConfig, resolve(cwd, "groups/utils/format.ts"))
       ).not.toBeDefined();
+    });
 
+    it("ignores files inside function directories", () => {
       expect(
-        parseFunction(
-          buildConfig,
-          resolve(cwd, "basic/hello/index/world/index.js")
-        )
+        parseFunction(groupsBuildConfig, resolve(cwd, "groups/users/utils.ts"))
       ).not.toBeDefined();
     });
 
@@ -461,4 +1085,44 @@ export { default as b } from "./b.cjs";`
       ).toBe(false);
     });
   });
+
+  describe("parseModuleExports", () => {
+    it("lists the value exports", () => {
+      expect(
+        parseModuleExports(
+          "users.ts",
+          `export const a = 1, b = 2;
+export function c() {}
+export class D {}
+export type E = string;
+export interface F {}
+export declare const g: number;
+const h = 1;
+export { h, h as i, type F as J };
+export { k } from "./k";
+export * as l from "./l";`
+        )
+      ).toEqual({
+        default: false,
+        named: ["a", "b", "c", "D", "h", "i", "k", "l"],
+      });
+    });
+
+    it("detects the default export", () => {
+      expect(parseModuleExports("a.js", "export default 1;")).toEqual({
+        default: true,
+        named: [],
+      });
+
+      expect(
+        parseModuleExports("a.js", "const a = 1; export { a as default };")
+      ).toEqual({ default: true, named: [] });
+    });
+
+    it("throws on export *", () => {
+      expect(() =>
+        parseModuleExports("users.ts", `export * from "./users";`)
+      ).toThrow("The function file users.ts uses export *");
+    });
+  });
 });
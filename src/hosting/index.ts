@@ -0,0 +1,514 @@
+import chokidar from "chokidar";
+import cp from "child_process";
+import { createHash } from "crypto";
+import {
+  copyFile,
+  cp as copy,
+  mkdir,
+  readFile,
+  rm,
+  writeFile,
+} from "fs/promises";
+import glob from "glob";
+import { dirname, posix, relative, resolve } from "path";
+import { promisify } from "util";
+import { FiremynaBuildConfig } from "../build";
+import {
+  FiremynaConfigHosting,
+  FiremynaConfigHostingSite,
+  FiremynaConfigResolved,
+  FiremynaHostingRewrite,
+} from "../config";
+import { FiremynaFunction, functionId } from "../functions";
+
+/**
+ * The firebase.json `hosting` config.
+ */
+export interface FiremynaFirebaseJSONHosting {
+  target?: string;
+  public: string;
+  cleanUrls?: boolean;
+  trailingSlash?: boolean;
+  headers?: Array<{
+    source: string;
+    headers: Array<{ key: string; value: string }>;
+  }>;
+  redirects?: Array<{ source: string; destination: string; type: number }>;
+  rewrites?: FiremynaFirebaseJSONRewrite[];
+}
+
+/**
+ * The firebase.json Hosting rewrite.
+ */
+export type FiremynaFirebaseJSONRewrite =
+  | { source: string; destination: string }
+  | {
+      source: string;
+      function: string | { functionId: string; region: string };
+    };
+
+const globAsync = promisify(glob);
+
+/**
+ * The .firebaserc contents.
+ */
+export interface FiremynaFirebaserc {
+  /** The project ids by the alias */
+  projects?: Record<string, string>;
+  /** The deploy targets by the project id and the resource type */
+  targets?: Record<string, Record<string, Record<string, string[]>>>;
+}
+
+/**
+ * The renderer function name.
+ */
+const rendererFunction = "renderer";
+
+/**
+ * Returns the Hosting config if the Hosting is enabled with a single site.
+ *
+ * @param config - the Firemyna config
+ * @returns the Hosting config or undefined if it's disabled or has multiple
+ * sites
+ */
+export function hostingConfig(
+  config: FiremynaConfigResolved
+): FiremynaConfigHosting | undefined {
+  if (!config.hosting || Array.isArray(config.hosting)) return;
+  return typeof config.hosting === "object" ? config.hosting : {};
+}
+
+/**
+ * Returns the Hosting sites config if the Hosting has multiple sites.
+ *
+ * @param config - the Firemyna config
+ * @returns the Hosting sites or undefined if it has a single site
+ */
+export function hostingSites(
+  config: FiremynaConfigResolved
+): FiremynaConfigHostingSite[] | undefined {
+  return Array.isArray(config.hosting) ? config.hosting : undefined;
+}
+
+/**
+ * Lists the Hosting rewrites of the single site or all the sites.
+ *
+ * @param config - the Firemyna config
+ * @returns the rewrites with their config key paths
+ */
+export function listHostingRewrites(
+  config: FiremynaConfigResolved
+): Array<[string, FiremynaHostingRewrite]> {
+  const sites = hostingSites(config);
+  const configs: Array<[string, FiremynaConfigHosting]> = sites
+    ? sites.map((site, index) => [`hosting.${index}`, site])
+    : [["hosting", hostingConfig(config) || {}]];
+
+  return configs.flatMap(([path, hosting]) =>
+    (hosting.rewrites || []).map(
+      (rewrite, index): [string, FiremynaHostingRewrite] => [
+        `${path}.rewrites.${index}`,
+        rewrite,
+      ]
+    )
+  );
+}
+
+/**
+ * Generates the firebase.json `hosting` config, an array of the targets when
+ * the Hosting has multiple sites. The config rewrites reference the functions
+ * by their ids, so they are converted to the deployed names and come before
+ * the renderer catch-all rewrite.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @returns the firebase.json `hosting` config or undefined if the Hosting
+ * is disabled
+ */
+export function hostingJSON(
+  buildConfig: FiremynaBuildConfig
+): FiremynaFirebaseJSONHosting | FiremynaFirebaseJSONHosting[] | undefined {
+  const { config, paths, renderer } = buildConfig;
+
+  const sites = hostingSites(config);
+  if (sites)
+    return sites.map((site) => ({
+      target: site.target,
+      ...siteJSON(
+        site,
+        relative(paths.appEnvBuild, paths.hosting.sites![site.target]!),
+        false
+      ),
+    }));
+
+  const hosting = hostingConfig(config);
+  if (!renderer && !hosting) return;
+
+  return siteJSON(
+    hosting || {},
+    relative(paths.appEnvBuild, paths.hosting.build),
+    renderer
+  );
+}
+
+/**
+ * Generates the firebase.json `hosting` config of the site.
+ *
+ * @param hosting - the site Hosting config
+ * @param publicPath - the site public path relative to firebase.json
+ * @param renderer - add the renderer catch-all rewrite
+ * @returns the site firebase.json `hosting` config
+ */
+function siteJSON(
+  hosting: FiremynaConfigHosting,
+  publicPath: string,
+  renderer: boolean
+): FiremynaFirebaseJSONHosting {
+  const json: FiremynaFirebaseJSONHosting = { public: publicPath };
+
+  if (hosting.cleanUrls !== undefined) json.cleanUrls = hosting.cleanUrls;
+  if (hosting.trailingSlash !== undefined)
+    json.trailingSlash = hosting.trailingSlash;
+
+  if (hosting.headers?.length)
+    json.headers = hosting.headers.map(({ source, headers }) => ({
+      source,
+      headers: Object.entries(headers).map(([key, value]) => ({ key, value })),
+    }));
+
+  if (hosting.redirects?.length)
+    json.redirects = hosting.redirects.map(({ source, destination, type }) => ({
+      source,
+      destination,
+      type: type || 301,
+    }));
+
+  const rewrites: FiremynaFirebaseJSONRewrite[] = (hosting.rewrites || []).map(
+    (rewrite) => {
+      if (!rewrite.function)
+        return { source: rewrite.source, destination: rewrite.destination! };
+
+      const name = rewrite.function.replace(/\./g, "-");
+      return {
+        source: rewrite.source,
+        function: rewrite.region
+          ? { functionId: name, region: rewrite.region }
+          : name,
+      };
+    }
+  );
+
+  if (renderer) rewrites.push({ source: "/**", function: rendererFunction });
+
+  if (rewrites.length) json.rewrites = rewrites;
+
+  return json;
+}
+
+/**
+ * Lists the Hosting rewrites referencing missing functions.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @param functions - the project functions
+ * @returns the missing functions ids with the rewrites config key paths
+ */
+export function missingRewriteFunctions(
+  buildConfig: FiremynaBuildConfig,
+  functions: FiremynaFunction[]
+): Array<[string, string]> {
+  const { config } = buildConfig;
+  const ids = new Set(
+    functions.flatMap((fn) => {
+      const id = functionId(fn);
+      return fn.exports ? fn.exports.map((name) => `${id}.${name}`) : [id];
+    })
+  );
+  if (config.preset === "remix" || config.preset === "next")
+    ids.add(rendererFunction);
+
+  return listHostingRewrites(config).flatMap(
+    ([path, rewrite]): Array<[string, string]> =>
+      rewrite.function && !ids.has(rewrite.function)
+        ? [[`${path}.function`, rewrite.function]]
+        : []
+  );
+}
+
+/**
+ * Adds the Hosting sites targets to the .firebaserc, so the sites are
+ * deployed to the configured site ids. The site ids set by the project alias
+ * are added only for the listed projects.
+ *
+ * @param config - the Firemyna config
+ * @param firebaserc - the project .firebaserc
+ * @returns the .firebaserc with the Hosting targets
+ */
+export function firebasercWithTargets(
+  config: FiremynaConfigResolved,
+  firebaserc: FiremynaFirebaserc
+): FiremynaFirebaserc {
+  const sites = hostingSites(config);
+  if (!sites) return firebaserc;
+
+  const targets = { ...firebaserc.targets };
+
+  Object.entries(firebaserc.projects || {}).forEach(([alias, projectId]) => {
+    const hosting = { ...targets[projectId]?.hosting };
+
+    sites.forEach(({ target, site }) => {
+      const siteId = typeof site === "string" ? site : site[alias];
+      if (siteId) hosting[target] = [siteId];
+    });
+
+    targets[projectId] = { ...targets[projectId], hosting };
+  });
+
+  return { ...firebaserc, targets };
+}
+
+/**
+ * The asset manifest file name.
+ */
+export const assetManifestName = "asset-manifest.json";
+
+/**
+ * The asset manifest, the hashed files paths by the original paths relative
+ * to the Hosting build directory.
+ */
+export type FiremynaAssetManifest = Record<string, string>;
+
+/**
+ * Builds the Hosting: runs the sites commands and copies the static files to
+ * the sites build directories.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @returns promise to the build completion
+ */
+export async function buildHosting(
+  buildConfig: FiremynaBuildConfig
+): Promise<void> {
+  const { cwd } = buildConfig;
+
+  for (const [hosting, buildPath, target] of hostingTargets(buildConfig)) {
+    const command = target && (hosting as FiremynaConfigHostingSite).command;
+    if (command) {
+      const buildDir = resolve(cwd, buildPath);
+      await mkdir(buildDir, { recursive: true });
+
+      const code = await new Promise<number | null>((resolve, reject) =>
+        cp
+          .spawn(command, {
+            cwd,
+            shell: true,
+            stdio: "inherit",
+            env: { ...process.env, BUILD_PATH: buildDir },
+          })
+          .on("error", reject)
+          .on("close", resolve)
+      );
+
+      if (code !== 0)
+        throw new Error(
+          `The Hosting site ${target} command failed with the exit code ${code}`
+        );
+    }
+
+    await copyHostingAssets(buildConfig, hosting, buildPath);
+  }
+}
+
+/**
+ * Copies the Hosting static files from the public path to the build
+ * directory. On build, when enabled, the files names get the content hash,
+ * the references in the HTML and CSS files are updated and the asset
+ * manifest is written.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @param hosting - the Hosting config
+ * @param buildPath - the Hosting build path
+ * @returns promise to the asset manifest if the files were hashed
+ */
+export async function copyHostingAssets(
+  buildConfig: FiremynaBuildConfig,
+  hosting: FiremynaConfigHosting,
+  buildPath: string
+): Promise<FiremynaAssetManifest | undefined> {
+  const { cwd, mode } = buildConfig;
+  if (!hosting.publicPath) return;
+
+  const src = resolve(cwd, hosting.publicPath);
+  const out = resolve(cwd, buildPath);
+  await mkdir(out, { recursive: true });
+
+  if (mode === "dev" || !hosting.hashAssets) {
+    await copy(src, out, { recursive: true });
+    return;
+  }
+
+  const files = await globAsync("**/*", { cwd: src, nodir: true, dot: true });
+  const hashed = new Set(
+    await globAsync("**/*", {
+      cwd: src,
+      nodir: true,
+      dot: true,
+      ignore: ["**/*.html"].concat(hosting.hashExclude || []),
+    })
+  );
+
+  const manifest: FiremynaAssetManifest = {};
+  const contents = new Map<string, Buffer>();
+  await Promise.all(
+    files.map(async (file) =>
+      contents.set(file, await readFile(resolve(src, file)))
+    )
+  );
+
+  // Process the CSS files after the rest of the assets, so their hashes
+  // include the updated references, and the HTML files after the CSS files
+  const rank = (file: string) =>
+    file.endsWith(".html") ? 2 : file.endsWith(".css") ? 1 : 0;
+  for (const file of files.sort((a, b) => rank(a) - rank(b))) {
+    let data = contents.get(file)!;
+    if (rank(file))
+      data = Buffer.from(
+        rewriteAssetReferences(data.toString(), file, manifest)
+      );
+
+    const name = hashed.has(file) ? hashedName(file, data) : file;
+    if (name !== file) manifest[file] = name;
+
+    await mkdir(dirname(resolve(out, name)), { recursive: true });
+    await writeFile(resolve(out, name), data);
+  }
+
+  await writeFile(
+    resolve(out, assetManifestName),
+    JSON.stringify(manifest, null, 2)
+  );
+
+  return manifest;
+}
+
+/**
+ * Watches the Hosting static files and syncs them into the build directories
+ * while the development server is running.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @param onError - called when syncing a file fails
+ * @returns promise to the watcher, resolved after the initial copy
+ */
+export async function watchHostingAssets(
+  buildConfig: FiremynaBuildConfig,
+  onError: (error: unknown) => void
+): Promise<chokidar.FSWatcher> {
+  const { cwd } = buildConfig;
+  const watcher = chokidar.watch([], { ignoreInitial: true });
+
+  await Promise.all(
+    hostingTargets(buildConfig).map(async ([hosting, buildPath]) => {
+      if (!hosting.publicPath) return;
+
+      const src = resolve(cwd, hosting.publicPath);
+      const out = resolve(cwd, buildPath);
+      await copyHostingAssets(buildConfig, hosting, buildPath);
+
+      watcher.add(src);
+      watcher.on("all", (event, path) => {
+        const file = relative(src, path);
+        if (file.startsWith("..")) return;
+        const target = resolve(out, file);
+
+        syncFile().catch(onError);
+
+        async function syncFile() {
+          switch (event) {
+            case "add":
+            case "change":
+              await mkdir(dirname(target), { recursive: true });
+              return copyFile(path, target);
+
+            case "addDir":
+              return mkdir(target, { recursive: true });
+
+            case "unlink":
+            case "unlinkDir":
+              return rm(target, { recursive: true, force: true });
+          }
+        }
+      });
+    })
+  );
+
+  return watcher;
+}
+
+/**
+ * Lists the Hosting configs with their build paths: the single site or all
+ * the sites with their targets.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @returns the Hosting configs, build paths and the sites targets
+ */
+function hostingTargets(
+  buildConfig: FiremynaBuildConfig
+): Array<[FiremynaConfigHosting, string, string | undefined]> {
+  const { config, paths } = buildConfig;
+  const sites = hostingSites(config);
+  if (sites)
+    return sites.map((site) => [
+      site,
+      paths.hosting.sites![site.target]!,
+      site.target,
+    ]);
+
+  const hosting = hostingConfig(config);
+  return hosting ? [[hosting, paths.hosting.build, undefined]] : [];
+}
+
+/**
+ * Updates the `href`, `src` and `url()` references to the hashed files.
+ *
+ * @param contents - the HTML or CSS file contents
+ * @param file - the file path relative to the public path
+ * @param manifest - the asset manifest
+ * @returns the updated contents
+ */
+export function rewriteAssetReferences(
+  contents: string,
+  file: string,
+  manifest: FiremynaAssetManifest
+): string {
+  return contents.replace(
+    /(\b(?:href|src)\s*=\s*["']|url\(\s*["']?)([^"'()\s]+)/g,
+    (match, prefix: string, reference: string) => {
+      // Skip the URLs and the anchors
+      if (/^([a-z][a-z0-9+.-]*:|\/\/|#)/i.test(reference)) return match;
+
+      const [, path = "", suffix = ""] = reference.match(/^([^?#]*)(.*)$/)!;
+      const assetPath = path.startsWith("/")
+        ? posix.normalize(path.slice(1))
+        : posix.join(posix.dirname(file), path);
+      const hashedPath = manifest[assetPath];
+      if (!hashedPath) return match;
+
+      return (
+        prefix +
+        path.slice(0, path.lastIndexOf("/") + 1) +
+        posix.basename(hashedPath) +
+        suffix
+      );
+    }
+  );
+}
+
+/**
+ * Adds the content hash to the file name, i.e. `app.js` → `app.3f2a1b9c.js`.
+ *
+ * @param file - the file path
+ * @param data - the file contents
+ * @returns the hashed file path
+ */
+function hashedName(file: string, data: Buffer): string {
+  const hash = createHash("sha256").update(data).digest("hex").slice(0, 8);
+  const { dir, name, ext } = posix.parse(file);
+  return posix.join(dir, `${name}.${hash}${ext}`);
+}
@@ -0,0 +1,343 @@
+import { mkdir, readFile, rm } from "fs/promises";
+import { resolve } from "path";
+import {
+  assetManifestName,
+  buildHosting,
+  copyHostingAssets,
+  firebasercWithTargets,
+  hostingJSON,
+  missingRewriteFunctions,
+  rewriteAssetReferences,
+} from ".";
+import { FiremynaBuildConfig } from "../build";
+import { FiremynaConfigHostingSite, FiremynaConfigResolved } from "../config";
+import { getPaths } from "../paths";
+import { describe, it, expect } from "vitest";
+
+describe("hosting", () => {
+  const cwd = __dirname;
+
+  function buildConfig(
+    config: Partial<FiremynaConfigResolved>,
+    renderer = false
+  ): FiremynaBuildConfig {
+    return {
+      project: undefined,
+      cwd,
+      appEnv: "production",
+      mode: "build",
+      paths: {
+        cwd,
+        appEnvBuild: "build",
+        functions: { src: "functions", build: "build/functions" },
+        hosting: { build: "build/hosting" },
+      },
+      config: { node: "18", format: "ts", hosting: true, ...config },
+      renderer,
+    };
+  }
+
+  describe("hostingJSON", () => {
+    it("generates the firebase.json hosting config", () => {
+      expect(
+        hostingJSON(
+          buildConfig(
+            {
+              preset: "remix",
+              hosting: {
+                cleanUrls: true,
+                trailingSlash: false,
+                headers: [
+                  {
+                    source: "**/*.@(js|css)",
+                    headers: { "Cache-Control": "max-age=31536000" },
+                  },
+                ],
+                redirects: [{ source: "/blog/:slug", destination: "/:slug" }],
+                rewrites: [
+                  { source: "/api/**", function: "api" },
+                  {
+                    source: "/webhooks/stripe",
+                    function: "billing.webhook",
+                    region: "europe-west1",
+                  },
+                  { source: "/app/**", destination: "/app.html" },
+                ],
+              },
+            },
+            true
+          )
+        )
+      ).toEqual({
+        public: "hosting",
+        cleanUrls: true,
+        trailingSlash: false,
+        headers: [
+          {
+            source: "**/*.@(js|css)",
+            headers: [{ key: "Cache-Control", value: "max-age=31536000" }],
+          },
+        ],
+        redirects: [
+          { source: "/blog/:slug", destination: "/:slug", type: 301 },
+        ],
+        rewrites: [
+          { source: "/api/**", function: "api" },
+          {
+            source: "/webhooks/stripe",
+            function: { functionId: "billing-webhook", region: "europe-west1" },
+          },
+          { source: "/app/**", destination: "/app.html" },
+          { source: "/**", function: "renderer" },
+        ],
+      });
+    });
+
+    it("generates the sites targets", () => {
+      const config = buildConfig({
+        hosting: [
+          { target: "marketing", site: "acme" },
+          {
+            target: "app",
+            site: "acme-app",
+            rewrites: [{ source: "/api/**", function: "api" }],
+          },
+        ],
+      });
+
+      expect(
+        hostingJSON({
+          ...config,
+          paths: {
+            ...config.paths,
+            hosting: {
+              build: "build/hosting",
+              sites: {
+                marketing: "build/hosting/marketing",
+                app: "build/hosting/app",
+              },
+            },
+          },
+        })
+      ).toEqual([
+        { target: "marketing", public: "hosting/marketing" },
+        {
+          target: "app",
+          public: "hosting/app",
+          rewrites: [{ source: "/api/**", function: "api" }],
+        },
+      ]);
+    });
+
+    it("returns undefined when the hosting is disabled", () => {
+      expect(hostingJSON(buildConfig({ hosting: false }))).toBeUndefined();
+      expect(hostingJSON(buildConfig({}))).toEqual({ public: "hosting" });
+    });
+  });
+
+  describe("missingRewriteFunctions", () => {
+    it("lists the rewrites referencing missing functions", () => {
+      expect(
+        missingRewriteFunctions(
+          buildConfig({
+            hosting: {
+              rewrites: [
+                { source: "/api/**", function: "api" },
+                { source: "/users", function: "users.onCreate" },
+                { source: "/billing", function: "billing" },
+                { source: "/**", function: "renderer" },
+                { source: "/app", destination: "/app.html" },
+              ],
+            },
+          }),
+          [
+            { path: "functions/api.ts", name: "api" },
+            {
+              path: "functions/users.ts",
+              name: "users",
+              exports: ["onCreate"],
+            },
+            {
+              path: "functions/billing/charge.ts",
+              name: "charge",
+              group: ["billing"],
+            },
+          ]
+        )
+      ).toEqual([
+        ["hosting.rewrites.2.function", "billing"],
+        ["hosting.rewrites.3.function", "renderer"],
+      ]);
+    });
+  });
+
+  describe("firebasercWithTargets", () => {
+    it("adds the sites targets to the listed projects", () => {
+      const sites: FiremynaConfigHostingSite[] = [
+        { target: "marketing", site: "acme" },
+        {
+          target: "admin",
+          site: { default: "acme-admin", staging: "acme-admin-staging" },
+        },
+      ];
+
+      expect(
+        firebasercWithTargets(buildConfig({ hosting: sites }).config, {
+          projects: { default: "acme-prod", staging: "acme-staging" },
+          targets: {
+            "acme-prod": { storage: { main: ["acme-prod.appspot.com"] } },
+          },
+        })
+      ).toEqual({
+        projects: { default: "acme-prod", staging: "acme-staging" },
+        targets: {
+          "acme-prod": {
+            storage: { main: ["acme-prod.appspot.com"] },
+            hosting: { marketing: ["acme"], admin: ["acme-admin"] },
+          },
+          "acme-staging": {
+            hosting: { marketing: ["acme"], admin: ["acme-admin-staging"] },
+          },
+        },
+      });
+    });
+  });
+
+  describe("buildHosting", () => {
+    it("runs the sites commands and copies the sites files", async () => {
+      const cwd = resolve(__dirname, "fixtures/sites");
+      const hosting: FiremynaConfigHostingSite[] = [
+        { target: "marketing", site: "acme", publicPath: "marketing" },
+        {
+          target: "app",
+          site: "acme-app",
+          command: `node -e "require('fs').writeFileSync(process.env.BUILD_PATH + '/app.html', 'app')"`,
+        },
+      ];
+      const config = buildConfig({ hosting });
+
+      try {
+        await buildHosting({
+          ...config,
+          cwd,
+          paths: getPaths({
+            appEnv: "production",
+            cwd,
+            projectPaths: { functions: "functions", build: "build" },
+            hostingTargets: ["marketing", "app"],
+          }),
+        });
+
+        const built = (path: string) =>
+          readFile(resolve(cwd, "build/production/hosting", path), "utf8");
+        expect(await built("marketing/index.html")).toBe("<h1>Acme</h1>\n");
+        expect(await built("app/app.html")).toBe("app");
+      } finally {
+        await rm(resolve(cwd, "build"), { recursive: true, force: true });
+      }
+    });
+
+    it("fails when the site command fails", async () => {
+      const config = buildConfig({
+        hosting: [{ target: "app", site: "acme-app", command: "exit 3" }],
+      });
+
+      try {
+        await expect(
+          buildHosting({
+            ...config,
+            paths: {
+              ...config.paths,
+              hosting: {
+                build: "fixtures/sites/build/failed",
+                sites: { app: "fixtures/sites/build/failed/app" },
+              },
+            },
+          })
+        ).rejects.toThrow(
+          "The Hosting site app command failed with the exit code 3"
+        );
+      } finally {
+        await rm(resolve(cwd, "fixtures/sites/build"), {
+          recursive: true,
+          force: true,
+        });
+      }
+    });
+  });
+
+  describe("copyHostingAssets", () => {
+    const cwd = resolve(__dirname, "fixtures/assets");
+    const out = resolve(cwd, "build/hosting");
+    const config = { ...buildConfig({}), cwd };
+
+    it("hashes the files names and updates the references", async () => {
+      await mkdir(out, { recursive: true });
+      try {
+        const manifest = await copyHostingAssets(
+          config,
+          { publicPath: "public", hashAssets: true, hashExclude: ["*.ico"] },
+          "build/hosting"
+        );
+
+        expect(manifest).toEqual({
+          "app.js": expect.stringMatching(/^app\.[0-9a-f]{8}\.js$/),
+          "images/logo.svg": expect.stringMatching(
+            /^images\/logo\.[0-9a-f]{8}\.svg$/
+          ),
+          "styles/app.css": expect.stringMatching(
+            /^styles\/app\.[0-9a-f]{8}\.css$/
+          ),
+        });
+
+        const read = (path: string) => readFile(resolve(out, path), "utf8");
+        expect(JSON.parse(await read(assetManifestName))).toEqual(manifest);
+        expect(await read("favicon.ico")).toBe("icon\n");
+        expect(await read(manifest!["styles/app.css"]!)).toContain(
+          `url("../${manifest!["images/logo.svg"]}")`
+        );
+        expect(await read("index.html")).toBe(`<!DOCTYPE html>
+<link rel="stylesheet" href="/${manifest!["styles/app.css"]}" />
+<link rel="icon" href="favicon.ico" />
+<script src="./${manifest!["app.js"]}?v=1"></script>
+<a href="https://example.com/app.js">Example</a>
+`);
+      } finally {
+        await rm(resolve(cwd, "build"), { recursive: true, force: true });
+      }
+    });
+
+    it("copies the files as is unless hashing is enabled", async () => {
+      await mkdir(out, { recursive: true });
+      try {
+        expect(
+          await copyHostingAssets(
+            config,
+            { publicPath: "public" },
+            "build/hosting"
+          )
+        ).toBeUndefined();
+        expect(await readFile(resolve(out, "app.js"), "utf8")).toBe(
+          `console.log("Hello, world!");\n`
+        );
+      } finally {
+        await rm(resolve(cwd, "build"), { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("rewriteAssetReferences", () => {
+    it("resolves the references relative to the file", () => {
+      const manifest = { "docs/a.png": "docs/a.12345678.png" };
+      expect(
+        rewriteAssetReferences(
+          `<img src="a.png"><img src='/docs/a.png#x'><img src="../a.png">`,
+          "docs/index.html",
+          manifest
+        )
+      ).toBe(
+        `<img src="a.12345678.png"><img src='/docs/a.12345678.png#x'><img src="../a.png">`
+      );
+    });
+  });
+});
@@ -1 +1,26 @@
-export { FiremynaConfig } from "./config";
+export {
+  build,
+  deploy,
+  dev,
+  listFunctions,
+  stacktrace,
+  FiremynaAPIOptions,
+  FiremynaBuildOptions,
+  FiremynaDeployOptions,
+  FiremynaDeployResult,
+  FiremynaDevOptions,
+} from "./api";
+export { FiremynaBuildResult } from "./build/run";
+export {
+  defineConfig,
+  FiremynaConfig,
+  FiremynaConfigEnv,
+  FiremynaConfigFactory,
+} from "./config";
+export { FiremynaDevLog, FiremynaDevServer } from "./dev";
+export {
+  defineFirestoreIndexes,
+  FiremynaFieldPath,
+  FiremynaFirestoreIndexes,
+} from "./firestore";
+export { FiremynaFunction } from "./functions";
@@ -0,0 +1,218 @@
+import cp from "child_process";
+import { access, readFile, writeFile } from "fs/promises";
+import { posix, relative, resolve, sep } from "path";
+import { promisify } from "util";
+import { FiremynaBuildConfig } from "../build";
+import { listPkgDependencies } from "../deps";
+import { FiremynaPkg } from "../pkg";
+import { npmLockedVersions, pruneNpmLockfile } from "./npm";
+import { pnpmLockedVersions, prunePnpmLockfile } from "./pnpm";
+import { pruneYarnLockfile, yarnLockedVersions } from "./yarn";
+
+const exec = promisify(cp.exec);
+
+/**
+ * The package manager.
+ */
+export type FiremynaPackageManager = "npm" | "yarn" | "pnpm";
+
+/**
+ * The detected package manager.
+ */
+export interface FiremynaPackageManagerInfo {
+  /** The package manager name */
+  name: FiremynaPackageManager;
+  /** The directory with the lockfile, either the project or the workspace
+   * root. Undefined if the project has no lockfile */
+  lockfileDir?: string;
+}
+
+/**
+ * The lockfile names by the package manager.
+ */
+export const lockfileNames: Record<FiremynaPackageManager, string> = {
+  npm: "package-lock.json",
+  yarn: "yarn.lock",
+  pnpm: "pnpm-lock.yaml",
+};
+
+/**
+ * The supported package managers.
+ */
+const packageManagers: FiremynaPackageManager[] = ["npm", "yarn", "pnpm"];
+
+/**
+ * Detects the project package manager from the package.json
+ * `packageManager` field or the lockfile in the project or the workspace
+ * root. Defaults to npm.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @param pkg - the project package.json
+ * @returns promise to the package manager and the lockfile directory
+ */
+export async function detectPackageManager(
+  buildConfig: FiremynaBuildConfig,
+  pkg: FiremynaPkg
+): Promise<FiremynaPackageManagerInfo> {
+  const declared = pkg.packageManager?.split("@")[0];
+  const managers = isPackageManager(declared) ? [declared] : packageManagers;
+
+  const dirs = [buildConfig.cwd].concat(buildConfig.workspace?.root || []);
+  for (const dir of dirs) {
+    for (const name of managers) {
+      const found = await access(resolve(dir, lockfileNames[name])).then(
+        () => true,
+        () => false
+      );
+      if (found) return { name, lockfileDir: dir };
+    }
+  }
+
+  return { name: managers[0]! };
+}
+
+/**
+ * Prunes the lockfile to the packages reachable from the package.json
+ * dependencies, so it matches the generated package.json. The workspace root
+ * lockfile gets the project workspace extracted as the root.
+ *
+ * @param manager - the package manager
+ * @param contents - the lockfile contents
+ * @param pkg - the package.json to prune to
+ * @param importer - the project path relative to the lockfile directory,
+ * empty if the lockfile is in the project directory
+ * @returns the pruned contents or undefined if the lockfile format is not
+ * supported
+ */
+export function pruneLockfile(
+  manager: FiremynaPackageManager,
+  contents: string,
+  pkg: FiremynaPkg,
+  importer = ""
+): string | undefined {
+  switch (manager) {
+    case "npm":
+      return pruneNpmLockfile(contents, pkg, importer);
+
+    case "yarn":
+      return pruneYarnLockfile(contents, pkg, importer);
+
+    case "pnpm":
+      return prunePnpmLockfile(contents, pkg, importer);
+  }
+}
+
+/**
+ * Lists the locked packages versions.
+ *
+ * @param manager - the package manager
+ * @param contents - the lockfile contents
+ * @param pkg - the project package.json
+ * @param importer - the project path relative to the lockfile directory,
+ * empty if the lockfile is in the project directory
+ * @returns the versions by the package name
+ */
+export function lockedVersions(
+  manager: FiremynaPackageManager,
+  contents: string,
+  pkg: FiremynaPkg,
+  importer = ""
+): Record<string, string> {
+  switch (manager) {
+    case "npm":
+      return npmLockedVersions(contents, importer);
+
+    case "yarn":
+      return yarnLockedVersions(contents, pkg);
+
+    case "pnpm":
+      return pnpmLockedVersions(contents, importer);
+  }
+}
+
+/**
+ * Reads the lockfile from the directory it was detected in.
+ *
+ * @param packageManager - the detected package manager
+ * @returns promise to the lockfile contents or undefined if it's missing
+ */
+export function readLockfile(
+  packageManager: FiremynaPackageManagerInfo
+): Promise<string | undefined> {
+  const { name, lockfileDir } = packageManager;
+  if (!lockfileDir) return Promise.resolve(undefined);
+  return readFile(resolve(lockfileDir, lockfileNames[name]), "utf8").catch(
+    () => undefined
+  );
+}
+
+/**
+ * Returns the project path relative to the lockfile directory, i.e.
+ * `apps/functions` for the workspace root lockfile.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @param packageManager - the detected package manager
+ * @returns the posix path or empty string if the lockfile is in the project
+ * directory
+ */
+export function lockfileImporter(
+  buildConfig: FiremynaBuildConfig,
+  packageManager: FiremynaPackageManagerInfo
+): string {
+  const { lockfileDir = buildConfig.cwd } = packageManager;
+  return relative(lockfileDir, buildConfig.cwd).split(sep).join(posix.sep);
+}
+
+/**
+ * Writes the project lockfile pruned to the package.json into the build
+ * directory. The workspace root lockfile gets the project workspace extracted.
+ * When the npm lockfile can not be pruned, npm removes the missing
+ * dependencies from it. Does nothing if the project has no lockfile.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @param packageManager - the detected package manager
+ * @param pkg - the generated package.json
+ * @returns promise to the operation complete
+ */
+export async function writeLockfile(
+  buildConfig: FiremynaBuildConfig,
+  packageManager: FiremynaPackageManagerInfo,
+  pkg: FiremynaPkg
+): Promise<void> {
+  const contents = await readLockfile(packageManager);
+  if (contents === undefined) return;
+
+  const { name } = packageManager;
+  const buildPath = resolve(buildConfig.cwd, buildConfig.paths.appEnvBuild);
+  const pruned = pruneLockfile(
+    name,
+    contents,
+    pkg,
+    lockfileImporter(buildConfig, packageManager)
+  );
+  await writeFile(resolve(buildPath, lockfileNames[name]), pruned ?? contents);
+  if (pruned !== undefined || name !== "npm") return;
+
+  const projectPkg: FiremynaPkg = JSON.parse(
+    await readFile(resolve(buildConfig.cwd, "package.json"), "utf8")
+  );
+  const removed = listPkgDependencies(projectPkg).filter(
+    (dependency) => !listPkgDependencies(pkg).includes(dependency)
+  );
+  if (removed.length)
+    await exec(`npm uninstall --package-lock-only ${removed.join(" ")}`, {
+      cwd: buildPath,
+    });
+}
+
+/**
+ * Checks if the string is a supported package manager.
+ *
+ * @param name - the name to check
+ * @returns true if it's a package manager
+ */
+function isPackageManager(
+  name: string | undefined
+): name is FiremynaPackageManager {
+  return packageManagers.includes(name as FiremynaPackageManager);
+}
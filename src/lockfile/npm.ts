@@ -0,0 +1,196 @@
+import { FiremynaPkg } from "../pkg";
+
+/**
+ * The package-lock.json package entry.
+ */
+interface NpmLockPackage {
+  version?: string;
+  resolved?: string;
+  link?: boolean;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+/**
+ * The package-lock.json contents.
+ */
+interface NpmLock {
+  lockfileVersion: number;
+  packages?: Record<string, NpmLockPackage>;
+  dependencies?: unknown;
+  [key: string]: unknown;
+}
+
+/**
+ * Prunes package-lock.json to the packages reachable from the package.json
+ * dependencies. The legacy `dependencies` tree is dropped, so the result is
+ * lockfile version 3.
+ *
+ * The workspace root lockfile gets the project workspace entry extracted as
+ * the root, and the packages installed into the workspaces node_modules moved
+ * to the root node_modules. The dependencies of the bundled workspace packages
+ * are looked up in their node_modules as well.
+ *
+ * @param contents - the package-lock.json contents
+ * @param pkg - the package.json to prune to
+ * @param importer - the project workspace path, empty for the root
+ * @returns the pruned contents or undefined if the lockfile version 1 that
+ * has no `packages` or the lockfile without the project workspace can not be
+ * pruned
+ */
+export function pruneNpmLockfile(
+  contents: string,
+  pkg: FiremynaPkg,
+  importer = ""
+): string | undefined {
+  const lock: NpmLock = JSON.parse(contents);
+  const packages = lock.packages;
+  if (!packages?.[importer]) return;
+
+  const root: NpmLockPackage = { ...packages[importer] };
+  (["dependencies", "devDependencies"] as const).forEach((key) => {
+    if (pkg[key] && Object.keys(pkg[key]!).length) root[key] = pkg[key];
+    else delete root[key];
+  });
+  if (importer) delete root.workspaces;
+
+  // The workspaces, the project first, to look up the root dependencies from
+  // the one that declares them
+  const workspaces = [importer].concat(
+    Object.keys(packages).filter(
+      (location) =>
+        location !== importer && !location.split("/").includes("node_modules")
+    )
+  );
+  const declaringWorkspace = (name: string) =>
+    workspaces.find((location) => {
+      const entry = packages[location]!;
+      return (
+        name in { ...entry.dependencies, ...entry.optionalDependencies } ||
+        (location === importer && name in { ...entry.devDependencies })
+      );
+    }) ?? importer;
+
+  const reachable = new Set<string>([importer]);
+  const queue = [importer];
+
+  function visit(location: string) {
+    if (reachable.has(location) || !packages![location]) return;
+    reachable.add(location);
+    queue.push(location);
+  }
+
+  while (queue.length) {
+    const location = queue.shift()!;
+    const isRoot = location === importer;
+    const entry = isRoot ? root : packages[location]!;
+
+    if (entry.link && entry.resolved) visit(entry.resolved);
+
+    Object.keys({
+      ...entry.dependencies,
+      ...entry.optionalDependencies,
+      ...entry.peerDependencies,
+      ...(isRoot ? entry.devDependencies : {}),
+    }).forEach((name) => {
+      const dependency = lookupPackage(
+        packages,
+        isRoot ? declaringWorkspace(name) : location,
+        name
+      );
+      if (dependency !== undefined) visit(dependency);
+    });
+  }
+
+  const pruned: Record<string, NpmLockPackage> = { "": root };
+  Object.entries(packages).forEach(([location, entry]) => {
+    if (location === importer || !reachable.has(location)) return;
+
+    const index = location.indexOf("node_modules/");
+    // Skip the linked workspaces
+    if (index === -1) return;
+
+    const rootLocation = location.slice(index);
+    // The project's own packages take precedence over the hoisted ones
+    if (!(rootLocation in pruned) || location.startsWith(importer + "/"))
+      pruned[rootLocation] = entry;
+  });
+
+  const { dependencies, ...rest } = lock;
+  return (
+    JSON.stringify(
+      {
+        ...rest,
+        ...(importer ? { name: root.name } : {}),
+        lockfileVersion: Math.max(lock.lockfileVersion, 3),
+        packages: pruned,
+      },
+      null,
+      2
+    ) + "\n"
+  );
+}
+
+/**
+ * Finds the package location the same way Node.js resolves it: in
+ * the nested node_modules first, then in the parent ones.
+ *
+ * @param packages - the lockfile packages
+ * @param location - the dependent package location
+ * @param name - the dependency name
+ * @returns the dependency location or undefined if it's not installed
+ */
+function lookupPackage(
+  packages: Record<string, NpmLockPackage>,
+  location: string,
+  name: string
+): string | undefined {
+  let parent = location;
+
+  while (true) {
+    const candidate = `${parent ? parent + "/" : ""}node_modules/${name}`;
+    if (packages[candidate]) return candidate;
+    if (!parent) return;
+
+    const index = parent.lastIndexOf("/node_modules/");
+    parent = index === -1 ? "" : parent.slice(0, index);
+  }
+}
+
+/**
+ * Lists the versions of the packages installed into the root node_modules
+ * and the project workspace node_modules, which take precedence.
+ *
+ * @param contents - the package-lock.json contents
+ * @param importer - the project workspace path, empty for the root
+ * @returns the versions by the package name
+ */
+export function npmLockedVersions(
+  contents: string,
+  importer = ""
+): Record<string, string> {
+  const lock: NpmLock = JSON.parse(contents);
+
+  if (!lock.packages)
+    return Object.fromEntries(
+      Object.entries(
+        (lock.dependencies || {}) as Record<string, { version: string }>
+      ).map(([name, { version }]) => [name, version])
+    );
+
+  const versionsAt = (prefix: string) =>
+    Object.entries(lock.packages!).flatMap(([location, { version }]) => {
+      if (!location.startsWith(prefix)) return [];
+      const name = location
+        .slice(prefix.length)
+        .match(/^node_modules\/((?:@[^/]+\/)?[^/]+)$/)?.[1];
+      return name && version ? [[name, version]] : [];
+    });
+
+  return Object.fromEntries(
+    versionsAt("").concat(importer ? versionsAt(importer + "/") : [])
+  );
+}
@@ -0,0 +1,402 @@
+import { FiremynaPkg, listPkgRanges } from "../pkg";
+
+/**
+ * The pnpm-lock.yaml mapping node. The lockfile uses a regular YAML subset,
+ * so the nodes are parsed by the indentation and keep the source lines.
+ */
+interface PnpmLockNode {
+  /** The mapping key, undefined for the leading blank lines and comments */
+  key?: string;
+  /** The inline value */
+  value?: string;
+  /** The header line */
+  header?: string;
+  /** The nested lines */
+  body: string[];
+}
+
+/**
+ * The importer dependencies sections.
+ */
+const dependenciesKeys = [
+  "dependencies",
+  "devDependencies",
+  "optionalDependencies",
+];
+
+/**
+ * Prunes pnpm-lock.yaml (versions 5, 6 and 9) to the packages reachable from
+ * the package.json dependencies. Only the root importer is kept.
+ *
+ * The workspace root lockfile gets the project importer extracted as the root
+ * one. The dependencies of the bundled workspace packages missing in
+ * the project importer are taken from the other importers.
+ *
+ * @param contents - the pnpm-lock.yaml contents
+ * @param pkg - the package.json to prune to
+ * @param importer - the project importer path, empty for the root
+ * @returns the pruned contents
+ */
+export function prunePnpmLockfile(
+  contents: string,
+  pkg: FiremynaPkg,
+  importer = ""
+): string {
+  const names = new Set(listPkgRanges(pkg).map(([name]) => name));
+  let sections = parseNodes(contents.split("\n"), 0);
+
+  const importers = sections.find((node) => node.key === "importers");
+  const importerNodes = importers ? parseChildren(importers) : [];
+  const project = importerNodes.find((node) => node.key === (importer || "."));
+  const root =
+    project &&
+    (importer
+      ? {
+          key: ".",
+          header: project.header!.replace(/\S.*$/, ".:"),
+          body: mergeImporterDependencies(
+            project,
+            importerNodes.filter((node) => node !== project),
+            names
+          ),
+        }
+      : project);
+
+  // Prune the root importer dependencies
+  const pruneRoot = (nodes: PnpmLockNode[]) =>
+    nodes.flatMap((node) => {
+      if (!node.key || ![...dependenciesKeys, "specifiers"].includes(node.key))
+        return [node];
+      const children = parseChildren(node).filter(
+        (child) => !child.key || names.has(child.key)
+      );
+      return children.some((child) => child.key)
+        ? [{ ...node, body: replaceChildren(node, children) }]
+        : [];
+    });
+
+  let rootNodes: PnpmLockNode[];
+  if (importers) {
+    const rootChildren = root ? pruneRoot(parseChildren(root)) : [];
+    rootNodes = rootChildren;
+    importers.body = replaceChildren(
+      importers,
+      importerNodes.flatMap((node) => {
+        if (!node.key) return [node];
+        if (node !== project) return [];
+        return [{ ...root!, body: replaceChildren(root!, rootChildren) }];
+      })
+    );
+  } else {
+    sections = pruneRoot(sections);
+    rootNodes = sections;
+  }
+
+  const packages = sections.find((node) => node.key === "packages");
+  const snapshots = sections.find((node) => node.key === "snapshots");
+  // Version 9 keeps the dependencies in the snapshots
+  const graph = snapshots || packages;
+  const graphNodes = graph ? parseChildren(graph) : [];
+  const nodesByKey = new Map(
+    graphNodes.flatMap((node) => (node.key ? [[node.key, node]] : []))
+  );
+
+  const reachable = new Set<string>();
+
+  function visit(name: string, version: string) {
+    const key = packageKeys(name, version).find((key) => nodesByKey.has(key));
+    if (!key || reachable.has(key)) return;
+    reachable.add(key);
+    nodeDependencies(nodesByKey.get(key)!).forEach(([name, version]) =>
+      visit(name, version)
+    );
+  }
+
+  rootDependencies(rootNodes).forEach(([name, version]) =>
+    visit(name, version)
+  );
+
+  if (graph)
+    graph.body = replaceChildren(
+      graph,
+      graphNodes.filter((node) => !node.key || reachable.has(node.key))
+    );
+
+  if (snapshots && packages) {
+    const resolved = new Set(
+      Array.from(reachable).map((key) => key.replace(/\(.*$/, ""))
+    );
+    packages.body = replaceChildren(
+      packages,
+      parseChildren(packages).filter(
+        (node) => !node.key || resolved.has(node.key)
+      )
+    );
+  }
+
+  return stringifyNodes(sections).join("\n");
+}
+
+/**
+ * Lists the locked packages versions: the project importer dependencies
+ * followed by the rest of the packages.
+ *
+ * @param contents - the pnpm-lock.yaml contents
+ * @param importer - the project importer path, empty for the root
+ * @returns the versions by the package name
+ */
+export function pnpmLockedVersions(
+  contents: string,
+  importer = ""
+): Record<string, string> {
+  const sections = parseNodes(contents.split("\n"), 0);
+  const importers = sections.find((node) => node.key === "importers");
+  const root = importers
+    ? parseChildren(importers).find((node) => node.key === (importer || "."))
+    : undefined;
+  const versions: Record<string, string> = {};
+
+  const packages = sections.find((node) => node.key === "packages");
+  (packages ? parseChildren(packages) : []).forEach((node) => {
+    const key = node.key?.replace(/^\//, "").replace(/\(.*$/, "");
+    if (!key) return;
+    const index = key.indexOf("@", 1);
+    // Version 5 keys are /name/version
+    const separator = index === -1 ? key.lastIndexOf("/") : index;
+    versions[key.slice(0, separator)] = key.slice(separator + 1);
+  });
+
+  rootDependencies(
+    importers ? (root ? parseChildren(root) : []) : sections
+  ).forEach(([name, version]) => {
+    if (!version.startsWith("link:"))
+      versions[name] = version.replace(/[(_].*$/, "");
+  });
+
+  return versions;
+}
+
+/**
+ * Adds the dependencies missing in the project importer from the other
+ * importers, i.e. the dependencies of the bundled workspace packages.
+ *
+ * @param project - the project importer node
+ * @param others - the other importers nodes
+ * @param names - the package.json dependencies names
+ * @returns the project importer body with the added dependencies
+ */
+function mergeImporterDependencies(
+  project: PnpmLockNode,
+  others: PnpmLockNode[],
+  names: Set<string>
+): string[] {
+  const sections = parseChildren(project);
+  const sectionIndent = project.header!.search(/\S/) + 2;
+  const sectionKeys = [...dependenciesKeys, "specifiers"];
+
+  const importerNames = (nodes: PnpmLockNode[]) =>
+    nodes
+      .filter((node) => node.key && dependenciesKeys.includes(node.key))
+      .flatMap((node) => parseChildren(node).map((child) => child.key!));
+  const present = new Set(importerNames(sections));
+
+  others.forEach((other) => {
+    const otherSections = parseChildren(other);
+    const added = new Set(
+      importerNames(otherSections).filter(
+        (name) => names.has(name) && !present.has(name)
+      )
+    );
+
+    // Copy the version 5 specifiers along with the dependencies
+    otherSections.forEach((otherSection) => {
+      const key = otherSection.key;
+      if (!key || !sectionKeys.includes(key)) return;
+
+      const children = parseChildren(otherSection).filter(
+        (child) => child.key && added.has(child.key)
+      );
+      if (!children.length) return;
+
+      let section = sections.find((node) => node.key === key);
+      if (!section) {
+        section = {
+          key,
+          header: `${" ".repeat(sectionIndent)}${key}:`,
+          body: [],
+        };
+        // Prepend, so the trailing blank lines stay at the end
+        sections.unshift(section);
+      }
+      // Drop the blank lines separating the importers
+      section.body = replaceChildren(
+        section,
+        parseChildren(section)
+          .concat(children)
+          .map((node) => ({
+            ...node,
+            body: node.body.slice(0, trimmedLength(node.body)),
+          }))
+      );
+    });
+
+    added.forEach((name) => present.add(name));
+  });
+
+  return replaceChildren(project, sections);
+}
+
+/**
+ * Lists the root importer dependencies with their locked versions.
+ *
+ * @param nodes - the root importer nodes
+ * @returns the dependencies names and versions
+ */
+function rootDependencies(nodes: PnpmLockNode[]): Array<[string, string]> {
+  return nodes
+    .filter((node) => node.key && dependenciesKeys.includes(node.key))
+    .flatMap((node) =>
+      parseChildren(node).flatMap((child): Array<[string, string]> => {
+        const version =
+          child.value ||
+          parseChildren(child).find((node) => node.key === "version")?.value;
+        return child.key && version ? [[child.key, version]] : [];
+      })
+    );
+}
+
+/**
+ * Generates the possible packages section keys for the dependency version:
+ * `/name/version` (v5), `/name@version` (v6) and `name@version` (v9). Aliases
+ * and peer suffixes are a part of the version.
+ *
+ * @param name - the dependency name
+ * @param version - the dependency version
+ * @returns the possible keys
+ */
+function packageKeys(name: string, version: string): string[] {
+  if (version.startsWith("link:")) return [];
+  return [
+    version,
+    `/${name}@${version}`,
+    `/${name}/${version}`,
+    `${name}@${version}`,
+  ];
+}
+
+/**
+ * Lists the package dependencies and optional dependencies.
+ *
+ * @param node - the package node
+ * @returns the dependencies names and versions
+ */
+function nodeDependencies(node: PnpmLockNode): Array<[string, string]> {
+  return parseChildren(node)
+    .filter(
+      (child) =>
+        child.key === "dependencies" || child.key === "optionalDependencies"
+    )
+    .flatMap((child) =>
+      parseChildren(child).flatMap(
+        (dependency): Array<[string, string]> =>
+          dependency.key && dependency.value
+            ? [[dependency.key, dependency.value]]
+            : []
+      )
+    );
+}
+
+/**
+ * Parses the mapping nodes at the indentation.
+ *
+ * @param lines - the lines to parse
+ * @param indent - the nodes indentation
+ * @returns the nodes
+ */
+function parseNodes(lines: string[], indent: number): PnpmLockNode[] {
+  const nodes: PnpmLockNode[] = [];
+  const headerRegExp = new RegExp(`^ {${indent}}[^\\s#]`);
+
+  lines.forEach((line) => {
+    if (headerRegExp.test(line)) {
+      const match = line
+        .trim()
+        .match(/^('([^']*)'|"([^"]*)"|[^:]+?):(?:\s+(.*))?$/);
+      nodes.push({
+        key: match ? match[2] ?? match[3] ?? match[1] : undefined,
+        value: match?.[4] && unquote(match[4]),
+        header: line,
+        body: [],
+      });
+    } else {
+      const last = nodes[nodes.length - 1];
+      if (last) last.body.push(line);
+      else nodes.push({ body: [line] });
+    }
+  });
+
+  return nodes;
+}
+
+/**
+ * Parses the node children.
+ *
+ * @param node - the node to parse
+ * @returns the child nodes
+ */
+function parseChildren(node: PnpmLockNode): PnpmLockNode[] {
+  const indent = node.header ? node.header.search(/\S/) + 2 : 0;
+  return parseNodes(node.body, indent);
+}
+
+/**
+ * Stringifies the nodes back to the lines.
+ *
+ * @param nodes - the nodes to stringify
+ * @returns the lines
+ */
+function stringifyNodes(nodes: PnpmLockNode[]): string[] {
+  return nodes.flatMap((node) =>
+    (node.header === undefined ? [] : [node.header]).concat(node.body)
+  );
+}
+
+/**
+ * Generates the node body from the new children, keeping the trailing blank
+ * lines that separate the node from the next one.
+ *
+ * @param node - the node to update
+ * @param children - the new child nodes
+ * @returns the node body lines
+ */
+function replaceChildren(
+  node: PnpmLockNode,
+  children: PnpmLockNode[]
+): string[] {
+  const lines = stringifyNodes(children);
+  return lines
+    .slice(0, trimmedLength(lines))
+    .concat(node.body.slice(trimmedLength(node.body)));
+}
+
+/**
+ * Counts the lines without the trailing blank lines.
+ *
+ * @param lines - the lines to count
+ * @returns the lines count without the trailing blank lines
+ */
+function trimmedLength(lines: string[]): number {
+  let end = lines.length;
+  while (end && !lines[end - 1]!.trim()) end--;
+  return end;
+}
+
+/**
+ * Removes the surrounding quotes.
+ *
+ * @param str - the string to unquote
+ * @returns the unquoted string
+ */
+function unquote(str: string): string {
+  return str.replace(/^(['"])(.*)\1$/, "$2");
+}
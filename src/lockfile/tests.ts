@@ -0,0 +1,607 @@
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { resolve } from "path";
+import {
+  detectPackageManager,
+  lockedVersions,
+  pruneLockfile,
+  writeLockfile,
+} from ".";
+import { FiremynaBuildConfig } from "../build";
+import { findWorkspace, resolveWorkspaceDependencies } from "../workspace";
+import { describe, it, expect } from "vitest";
+
+describe("lockfile", () => {
+  const pkg = {
+    dependencies: { "firebase-functions": "^4.4.0" },
+    devDependencies: { typescript: "^5.1.6" },
+  };
+
+  describe("detectPackageManager", () => {
+    const cwd = resolve(__dirname, "fixtures");
+
+    const buildConfig: FiremynaBuildConfig = {
+      project: undefined,
+      cwd,
+      appEnv: "production",
+      mode: "build",
+      paths: {
+        cwd,
+        appEnvBuild: "build",
+        functions: { src: "functions", build: "build/functions" },
+        hosting: { build: "build/hosting" },
+      },
+      config: { node: "18", format: "ts" },
+      renderer: false,
+    };
+
+    it("uses the packageManager field", async () => {
+      expect(
+        await detectPackageManager(buildConfig, {
+          packageManager: "pnpm@8.6.0",
+        })
+      ).toEqual({ name: "pnpm" });
+    });
+
+    it("detects the lockfile", async () => {
+      expect(await detectPackageManager(buildConfig, {})).toEqual({
+        name: "yarn",
+        lockfileDir: cwd,
+      });
+    });
+
+    it("detects the workspace root lockfile", async () => {
+      const root = resolve(cwd, "workspace");
+      expect(
+        await detectPackageManager(
+          {
+            ...buildConfig,
+            cwd: resolve(root, "apps/functions"),
+            workspace: { root, packages: [] },
+          },
+          {}
+        )
+      ).toEqual({ name: "pnpm", lockfileDir: root });
+    });
+
+    it("defaults to npm", async () => {
+      expect(
+        await detectPackageManager({ ...buildConfig, cwd: __dirname }, {})
+      ).toEqual({ name: "npm" });
+    });
+  });
+
+  describe("writeLockfile", () => {
+    it("extracts the project from the workspace root lockfile", async () => {
+      const cwd = resolve(__dirname, "fixtures/workspace/apps/functions");
+      const workspace = (await findWorkspace(cwd))!;
+      const pkg = resolveWorkspaceDependencies(
+        JSON.parse(await readFile(resolve(cwd, "package.json"), "utf8")),
+        workspace
+      );
+      const buildPath = await mkdtemp(resolve(tmpdir(), "firemyna-lockfile-"));
+
+      try {
+        const buildConfig: FiremynaBuildConfig = {
+          project: undefined,
+          cwd,
+          appEnv: "production",
+          mode: "build",
+          paths: {
+            cwd,
+            appEnvBuild: buildPath,
+            functions: { src: "functions", build: "build/functions" },
+            hosting: { build: "build/hosting" },
+          },
+          config: { node: "18", format: "ts" },
+          renderer: false,
+          workspace,
+        };
+
+        await writeLockfile(
+          buildConfig,
+          await detectPackageManager(buildConfig, pkg),
+          pkg
+        );
+
+        expect(await readFile(resolve(buildPath, "pnpm-lock.yaml"), "utf8"))
+          .toBe(`lockfileVersion: '9.0'
+
+settings:
+  autoInstallPeers: true
+  excludeLinksFromLockfile: false
+
+importers:
+
+  .:
+    dependencies:
+      firebase-functions:
+        specifier: ^4.4.0
+        version: 4.4.1
+      zod:
+        specifier: ^3.22.0
+        version: 3.22.4
+
+packages:
+
+  firebase-functions@4.4.1:
+    resolution: {integrity: sha512-ff}
+
+  zod@3.22.4:
+    resolution: {integrity: sha512-zod}
+
+snapshots:
+
+  firebase-functions@4.4.1: {}
+
+  zod@3.22.4: {}
+`);
+      } finally {
+        await rm(buildPath, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("pruneLockfile", () => {
+    it("prunes package-lock.json", () => {
+      const lock = {
+        name: "app",
+        lockfileVersion: 2,
+        requires: true,
+        packages: {
+          "": {
+            name: "app",
+            dependencies: {
+              "firebase-functions": "^4.4.0",
+              zod: "^3.22.0",
+            },
+            devDependencies: { typescript: "^5.1.6" },
+          },
+          "node_modules/firebase-functions": {
+            version: "4.4.1",
+            dependencies: { cors: "^2.8.5" },
+          },
+          "node_modules/firebase-functions/node_modules/cors": {
+            version: "2.8.5",
+            dependencies: { vary: "^1" },
+          },
+          "node_modules/cors": { version: "2.7.0" },
+          "node_modules/vary": { version: "1.1.2" },
+          "node_modules/typescript": { version: "5.1.6", dev: true },
+          "node_modules/zod": { version: "3.22.4" },
+        },
+        dependencies: {},
+      };
+
+      const pruned = JSON.parse(
+        pruneLockfile("npm", JSON.stringify(lock), pkg)!
+      );
+
+      expect(pruned.lockfileVersion).toBe(3);
+      expect(pruned.dependencies).toBeUndefined();
+      expect(pruned.packages[""].dependencies).toEqual(pkg.dependencies);
+      expect(Object.keys(pruned.packages)).toEqual([
+        "",
+        "node_modules/firebase-functions",
+        "node_modules/firebase-functions/node_modules/cors",
+        "node_modules/vary",
+        "node_modules/typescript",
+      ]);
+    });
+
+    it("does not prune package-lock.json version 1", () => {
+      expect(
+        pruneLockfile(
+          "npm",
+          JSON.stringify({ lockfileVersion: 1, dependencies: {} }),
+          pkg
+        )
+      ).toBeUndefined();
+    });
+
+    it("extracts the workspace from package-lock.json", () => {
+      const lock = {
+        name: "acme",
+        lockfileVersion: 3,
+        requires: true,
+        packages: {
+          "": { name: "acme", workspaces: ["apps/*", "packages/*"] },
+          "apps/functions": {
+            name: "@acme/functions",
+            dependencies: {
+              "@acme/shared": "*",
+              "firebase-functions": "^4.4.0",
+            },
+          },
+          "apps/functions/node_modules/cors": { version: "2.8.5" },
+          "packages/shared": {
+            name: "@acme/shared",
+            dependencies: { zod: "^3.22.0" },
+          },
+          "packages/shared/node_modules/zod": { version: "3.22.4" },
+          "node_modules/@acme/functions": {
+            resolved: "apps/functions",
+            link: true,
+          },
+          "node_modules/@acme/shared": {
+            resolved: "packages/shared",
+            link: true,
+          },
+          "node_modules/cors": { version: "2.7.0" },
+          "node_modules/firebase-functions": {
+            version: "4.4.1",
+            dependencies: { cors: "^2.8.5" },
+          },
+          "node_modules/zod": { version: "3.20.0" },
+        },
+      };
+
+      const pruned = JSON.parse(
+        pruneLockfile(
+          "npm",
+          JSON.stringify(lock),
+          {
+            dependencies: {
+              "firebase-functions": "^4.4.0",
+              cors: "^2.8.5",
+              zod: "^3.22.0",
+            },
+          },
+          "apps/functions"
+        )!
+      );
+
+      expect(pruned.name).toBe("@acme/functions");
+      expect(pruned.packages).toEqual({
+        "": {
+          name: "@acme/functions",
+          dependencies: {
+            "firebase-functions": "^4.4.0",
+            cors: "^2.8.5",
+            zod: "^3.22.0",
+          },
+        },
+        "node_modules/cors": { version: "2.8.5" },
+        "node_modules/zod": { version: "3.22.4" },
+        "node_modules/firebase-functions": {
+          version: "4.4.1",
+          dependencies: { cors: "^2.8.5" },
+        },
+      });
+    });
+
+    it("prunes classic yarn.lock", () => {
+      const lock = `# THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.
+# yarn lockfile v1
+
+
+cors@^2.8.5:
+  version "2.8.5"
+  dependencies:
+    vary "^1"
+
+firebase-functions@^4.4.0:
+  version "4.4.1"
+  dependencies:
+    cors "^2.8.5"
+
+typescript@^5.1.6:
+  version "5.1.6"
+
+vary@^1:
+  version "1.1.2"
+
+zod@^3.22.0:
+  version "3.22.4"
+`;
+
+      expect(pruneLockfile("yarn", lock, pkg))
+        .toBe(`# THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.
+# yarn lockfile v1
+
+
+cors@^2.8.5:
+  version "2.8.5"
+  dependencies:
+    vary "^1"
+
+firebase-functions@^4.4.0:
+  version "4.4.1"
+  dependencies:
+    cors "^2.8.5"
+
+typescript@^5.1.6:
+  version "5.1.6"
+
+vary@^1:
+  version "1.1.2"
+`);
+    });
+
+    it("prunes berry yarn.lock", () => {
+      const lock = `__metadata:
+  version: 6
+  cacheKey: 8
+
+"app@workspace:.":
+  version: 0.0.0-use.local
+  resolution: "app@workspace:."
+  dependencies:
+    firebase-functions: ^4.4.0
+    typescript: ^5.1.6
+    zod: ^3.22.0
+  languageName: unknown
+  linkType: soft
+
+"firebase-functions@npm:^4.4.0":
+  version: 4.4.1
+  resolution: "firebase-functions@npm:4.4.1"
+  languageName: node
+  linkType: hard
+
+"typescript@npm:^5.1.6":
+  version: 5.1.6
+  resolution: "typescript@npm:5.1.6"
+  languageName: node
+  linkType: hard
+
+"zod@npm:^3.22.0":
+  version: 3.22.4
+  resolution: "zod@npm:3.22.4"
+  languageName: node
+  linkType: hard
+`;
+
+      const pruned = pruneLockfile("yarn", lock, pkg);
+      expect(pruned).toContain("__metadata:");
+      expect(pruned).toContain(`"firebase-functions@npm:^4.4.0":`);
+      expect(pruned).toContain(`"typescript@npm:^5.1.6":`);
+      expect(pruned).not.toContain("zod");
+    });
+
+    it("extracts the workspace from berry yarn.lock", () => {
+      const lock = `__metadata:
+  version: 6
+  cacheKey: 8
+
+"@acme/functions@workspace:apps/functions":
+  version: 0.0.0-use.local
+  resolution: "@acme/functions@workspace:apps/functions"
+  dependencies:
+    "@acme/shared": "workspace:*"
+    firebase-functions: ^4.4.0
+  languageName: unknown
+  linkType: soft
+
+"@acme/shared@workspace:*, @acme/shared@workspace:packages/shared":
+  version: 0.0.0-use.local
+  resolution: "@acme/shared@workspace:packages/shared"
+  dependencies:
+    zod: ^3.22.0
+  languageName: unknown
+  linkType: soft
+
+"acme@workspace:.":
+  version: 0.0.0-use.local
+  resolution: "acme@workspace:."
+  languageName: unknown
+  linkType: soft
+
+"firebase-functions@npm:^4.4.0":
+  version: 4.4.1
+  resolution: "firebase-functions@npm:4.4.1"
+  languageName: node
+  linkType: hard
+
+"zod@npm:^3.22.0":
+  version: 3.22.4
+  resolution: "zod@npm:3.22.4"
+  languageName: node
+  linkType: hard
+`;
+
+      expect(
+        pruneLockfile(
+          "yarn",
+          lock,
+          {
+            dependencies: { "firebase-functions": "^4.4.0", zod: "^3.22.0" },
+          },
+          "apps/functions"
+        )
+      ).toBe(`__metadata:
+  version: 6
+  cacheKey: 8
+
+"@acme/functions@workspace:.":
+  version: 0.0.0-use.local
+  resolution: "@acme/functions@workspace:."
+  dependencies:
+    firebase-functions: ^4.4.0
+    zod: ^3.22.0
+  languageName: unknown
+  linkType: soft
+
+"firebase-functions@npm:^4.4.0":
+  version: 4.4.1
+  resolution: "firebase-functions@npm:4.4.1"
+  languageName: node
+  linkType: hard
+
+"zod@npm:^3.22.0":
+  version: 3.22.4
+  resolution: "zod@npm:3.22.4"
+  languageName: node
+  linkType: hard
+`);
+    });
+
+    it("prunes pnpm-lock.yaml version 6", () => {
+      const lock = `lockfileVersion: '6.0'
+
+dependencies:
+  firebase-functions:
+    specifier: ^4.4.0
+    version: 4.4.1
+  zod:
+    specifier: ^3.22.0
+    version: 3.22.4
+
+devDependencies:
+  typescript:
+    specifier: ^5.1.6
+    version: 5.1.6
+
+packages:
+
+  /cors@2.8.5:
+    resolution: {integrity: sha512-cors}
+    dev: false
+
+  /firebase-functions@4.4.1:
+    resolution: {integrity: sha512-ff}
+    dependencies:
+      cors: 2.8.5
+    dev: false
+
+  /typescript@5.1.6:
+    resolution: {integrity: sha512-ts}
+    dev: true
+
+  /zod@3.22.4:
+    resolution: {integrity: sha512-zod}
+    dev: false
+`;
+
+      expect(pruneLockfile("pnpm", lock, pkg)).toBe(`lockfileVersion: '6.0'
+
+dependencies:
+  firebase-functions:
+    specifier: ^4.4.0
+    version: 4.4.1
+
+devDependencies:
+  typescript:
+    specifier: ^5.1.6
+    version: 5.1.6
+
+packages:
+
+  /cors@2.8.5:
+    resolution: {integrity: sha512-cors}
+    dev: false
+
+  /firebase-functions@4.4.1:
+    resolution: {integrity: sha512-ff}
+    dependencies:
+      cors: 2.8.5
+    dev: false
+
+  /typescript@5.1.6:
+    resolution: {integrity: sha512-ts}
+    dev: true
+`);
+    });
+
+    it("prunes pnpm-lock.yaml version 9", () => {
+      const lock = `lockfileVersion: '9.0'
+
+importers:
+
+  .:
+    dependencies:
+      firebase-functions:
+        specifier: ^4.4.0
+        version: 4.4.1(firebase-admin@11.10.1)
+      zod:
+        specifier: ^3.22.0
+        version: 3.22.4
+
+  packages/other:
+    dependencies:
+      zod:
+        specifier: ^3.22.0
+        version: 3.22.4
+
+packages:
+
+  firebase-functions@4.4.1:
+    resolution: {integrity: sha512-ff}
+
+  zod@3.22.4:
+    resolution: {integrity: sha512-zod}
+
+snapshots:
+
+  firebase-functions@4.4.1(firebase-admin@11.10.1): {}
+
+  zod@3.22.4: {}
+`;
+
+      const pruned = pruneLockfile("pnpm", lock, pkg);
+      expect(pruned).toContain("firebase-functions@4.4.1:");
+      expect(pruned).toContain(
+        "firebase-functions@4.4.1(firebase-admin@11.10.1): {}"
+      );
+      expect(pruned).not.toContain("zod");
+      expect(pruned).not.toContain("packages/other");
+    });
+  });
+
+  describe("lockedVersions", () => {
+    it("lists the yarn.lock versions preferring the declared ranges", () => {
+      const lock = `cors@^2.7.0:
+  version "2.7.1"
+
+cors@^2.8.5:
+  version "2.8.5"
+
+vary@^1:
+  version "1.1.2"
+`;
+
+      expect(
+        lockedVersions("yarn", lock, { dependencies: { cors: "^2.8.5" } })
+      ).toEqual({ cors: "2.8.5", vary: "1.1.2" });
+    });
+
+    it("prefers the project workspace package-lock.json versions", () => {
+      const lock = {
+        lockfileVersion: 3,
+        packages: {
+          "": {},
+          "apps/functions/node_modules/cors": { version: "2.8.5" },
+          "node_modules/cors": { version: "2.7.0" },
+          "node_modules/vary": { version: "1.1.2" },
+        },
+      };
+
+      expect(
+        lockedVersions("npm", JSON.stringify(lock), {}, "apps/functions")
+      ).toEqual({ cors: "2.8.5", vary: "1.1.2" });
+    });
+
+    it("lists the pnpm-lock.yaml versions", () => {
+      const lock = `lockfileVersion: '6.0'
+
+dependencies:
+  firebase-functions:
+    specifier: ^4.4.0
+    version: 4.4.1(firebase-admin@11.10.1)
+
+packages:
+
+  /@types/cors@2.8.13:
+    resolution: {integrity: sha512-types}
+
+  /firebase-functions@4.4.1(firebase-admin@11.10.1):
+    resolution: {integrity: sha512-ff}
+`;
+
+      expect(lockedVersions("pnpm", lock, {})).toEqual({
+        "@types/cors": "2.8.13",
+        "firebase-functions": "4.4.1",
+      });
+    });
+  });
+});
@@ -0,0 +1,285 @@
+import { FiremynaPkg, listPkgRanges } from "../pkg";
+
+/**
+ * The yarn.lock entry.
+ */
+interface YarnLockEntry {
+  /** The entry descriptors (i.e. `zod@^3.0.0` or `zod@npm:^3.0.0`) */
+  descriptors: string[];
+  /** The entry lines including the header */
+  lines: string[];
+}
+
+/**
+ * Prunes yarn.lock, either classic or berry, to the entries reachable from
+ * the package.json dependencies. The berry root workspace entry gets
+ * the removed dependencies dropped.
+ *
+ * The berry workspace root lockfile gets the project workspace entry
+ * extracted as the root workspace with the package.json dependencies, while
+ * the other workspaces are dropped. The classic lockfile has no workspaces
+ * entries, so it's pruned as is.
+ *
+ * @param contents - the yarn.lock contents
+ * @param pkg - the package.json to prune to
+ * @param importer - the project workspace path, empty for the root
+ * @returns the pruned contents
+ */
+export function pruneYarnLockfile(
+  contents: string,
+  pkg: FiremynaPkg,
+  importer = ""
+): string {
+  const parsed = parseYarnLockfile(contents);
+  const { preamble } = parsed;
+  const entries = importer
+    ? extractWorkspaceEntry(parsed.entries, importer, pkg)
+    : parsed.entries;
+  const rootDependencies = listPkgRanges(pkg);
+  const rootNames = new Set(rootDependencies.map(([name]) => name));
+
+  const entriesByDescriptor = new Map<string, YarnLockEntry>();
+  entries.forEach((entry) =>
+    entry.descriptors.forEach((descriptor) => {
+      entriesByDescriptor.set(descriptor, entry);
+      // Berry dependencies omit the default npm protocol
+      entriesByDescriptor.set(descriptor.replace("@npm:", "@"), entry);
+    })
+  );
+
+  const reachable = new Set<YarnLockEntry>();
+
+  function visit(name: string, range: string) {
+    const entry = entriesByDescriptor.get(`${name}@${range}`);
+    if (!entry || reachable.has(entry)) return;
+    reachable.add(entry);
+    entryDependencies(entry).forEach(([name, range]) => visit(name, range));
+  }
+
+  rootDependencies.forEach(([name, range]) => visit(name, range));
+
+  const kept = entries.flatMap((entry) => {
+    if (
+      entry.descriptors.some((descriptor) =>
+        descriptor.endsWith("@workspace:.")
+      )
+    )
+      return [pruneRootWorkspaceEntry(entry, rootNames)];
+    // Keep the metadata and the other workspaces
+    if (
+      entry.descriptors[0] === "__metadata" ||
+      entry.descriptors.some((descriptor) => descriptor.includes("@workspace:"))
+    )
+      return [entry];
+    return reachable.has(entry) ? [entry] : [];
+  });
+
+  return preamble.concat(kept.flatMap((entry) => entry.lines)).join("\n");
+}
+
+/**
+ * Lists the locked packages versions. The versions of the package.json
+ * dependencies ranges take precedence.
+ *
+ * @param contents - the yarn.lock contents
+ * @param pkg - the package.json
+ * @returns the versions by the package name
+ */
+export function yarnLockedVersions(
+  contents: string,
+  pkg: FiremynaPkg
+): Record<string, string> {
+  const ranges = new Set(
+    listPkgRanges(pkg).map(([name, range]) => `${name}@${range}`)
+  );
+  const versions: Record<string, string> = {};
+  const declared = new Set<string>();
+
+  parseYarnLockfile(contents).entries.forEach((entry) => {
+    const version = entry.lines
+      .map((line) => line.match(/^ {2}version:?\s+"?([^"]+)"?$/)?.[1])
+      .find(Boolean);
+    if (!version) return;
+
+    entry.descriptors.forEach((descriptor) => {
+      const name = descriptor.slice(0, descriptor.indexOf("@", 1));
+      if (ranges.has(descriptor.replace("@npm:", "@"))) {
+        versions[name] = version;
+        declared.add(name);
+      } else if (!declared.has(name) && !(name in versions)) {
+        versions[name] = version;
+      }
+    });
+  });
+
+  return versions;
+}
+
+/**
+ * Parses yarn.lock into the entries.
+ *
+ * @param contents - the yarn.lock contents
+ * @returns the leading comments and the entries
+ */
+function parseYarnLockfile(contents: string) {
+  const preamble: string[] = [];
+  const entries: YarnLockEntry[] = [];
+
+  contents.split("\n").forEach((line) => {
+    if (line && !/^[\s#]/.test(line)) {
+      entries.push({
+        descriptors: line
+          .replace(/:$/, "")
+          .split(/,\s*/)
+          .map((descriptor) => unquote(descriptor.trim())),
+        lines: [line],
+      });
+    } else {
+      (entries[entries.length - 1]?.lines || preamble).push(line);
+    }
+  });
+
+  return { preamble, entries };
+}
+
+/**
+ * Replaces the berry workspaces entries with the project workspace entry
+ * turned into the root workspace. Its dependencies are replaced with
+ * the package.json ones, that include the bundled workspace packages
+ * dependencies.
+ *
+ * @param entries - the yarn.lock entries
+ * @param importer - the project workspace path
+ * @param pkg - the package.json
+ * @returns the entries with the project as the root workspace
+ */
+function extractWorkspaceEntry(
+  entries: YarnLockEntry[],
+  importer: string,
+  pkg: FiremynaPkg
+): YarnLockEntry[] {
+  const suffix = `@workspace:${importer}`;
+
+  return entries.flatMap((entry) => {
+    const descriptor = entry.descriptors.find((descriptor) =>
+      descriptor.endsWith(suffix)
+    );
+    if (!descriptor)
+      return entry.descriptors.some((descriptor) =>
+        descriptor.includes("@workspace:")
+      )
+        ? []
+        : [entry];
+
+    const name = descriptor.slice(0, -suffix.length);
+    const rootDescriptor = `${name}@workspace:.`;
+    const dependencies = Object.entries({
+      ...pkg.dependencies,
+      ...pkg.devDependencies,
+      ...pkg.optionalDependencies,
+    })
+      .sort(([a], [b]) => (a < b ? -1 : 1))
+      .map(
+        ([name, range]) =>
+          `    ${name.startsWith("@") ? `"${name}"` : name}: ${range}`
+      );
+
+    let inDependencies = false;
+    const lines = entry.lines.flatMap((line, index) => {
+      if (!index) return [`"${rootDescriptor}":`];
+
+      if (/^ {2}\S/.test(line)) {
+        inDependencies = /^ {2}dependencies:$/.test(line);
+        if (inDependencies) return [];
+        if (/^ {2}resolution:/.test(line))
+          return [`  resolution: "${rootDescriptor}"`].concat(
+            dependencies.length ? ["  dependencies:", ...dependencies] : []
+          );
+        return [line];
+      }
+
+      return inDependencies && /^ {4}\S/.test(line) ? [] : [line];
+    });
+
+    return [{ descriptors: [rootDescriptor], lines }];
+  });
+}
+
+/**
+ * Lists the entry dependencies and optional dependencies.
+ *
+ * @param entry - the yarn.lock entry
+ * @returns the dependencies names and ranges
+ */
+function entryDependencies(entry: YarnLockEntry): Array<[string, string]> {
+  const dependencies: Array<[string, string]> = [];
+  let inDependencies = false;
+
+  entry.lines.slice(1).forEach((line) => {
+    if (/^ {2}\S/.test(line)) {
+      inDependencies = /^ {2}(dependencies|optionalDependencies):$/.test(line);
+      return;
+    }
+
+    const dependency = inDependencies && parseDependencyLine(line);
+    if (dependency) dependencies.push(dependency);
+  });
+
+  return dependencies;
+}
+
+/**
+ * Removes the dependencies missing in package.json from the root workspace
+ * entry.
+ *
+ * @param entry - the root workspace entry
+ * @param names - the package.json dependencies names
+ * @returns the pruned entry
+ */
+function pruneRootWorkspaceEntry(
+  entry: YarnLockEntry,
+  names: Set<string>
+): YarnLockEntry {
+  let inDependencies = false;
+
+  return {
+    ...entry,
+    lines: entry.lines.filter((line) => {
+      if (/^ {2}\S/.test(line)) {
+        inDependencies = /^ {2}(dependencies|optionalDependencies):$/.test(
+          line
+        );
+        return true;
+      }
+
+      const dependency = inDependencies && parseDependencyLine(line);
+      return !dependency || names.has(dependency[0]);
+    }),
+  };
+}
+
+/**
+ * Parses the dependency line, either classic (`"name" "range"`) or berry
+ * (`name: range`).
+ *
+ * @param line - the dependency line
+ * @returns the dependency name and range or undefined if it's not
+ * a dependency line
+ */
+function parseDependencyLine(line: string): [string, string] | undefined {
+  if (!/^ {4}\S/.test(line)) return;
+  const match =
+    line.trim().match(/^"?([^"]+?)"?:\s+(.+)$/) ||
+    line.trim().match(/^"?([^"\s]+)"?\s+(.+)$/);
+  return match ? [match[1]!, unquote(match[2]!)] : undefined;
+}
+
+/**
+ * Removes the surrounding quotes.
+ *
+ * @param str - the string to unquote
+ * @returns the unquoted string
+ */
+function unquote(str: string): string {
+  return str.replace(/^"(.*)"$/, "$1");
+}
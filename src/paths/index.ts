@@ -18,7 +18,7 @@
  */
 
 import { mkdir } from "fs/promises";
-import { relative, join, resolve } from "path";
+import { dirname, join, relative, resolve, sep } from "path";
 import { FiremynaAppEnv } from "../app";
 import { FiremynaConfigResolved, FiremynaFormat } from "../config";
 
@@ -65,6 +65,9 @@ export interface FiremynaPaths {
   hosting: {
     /** The hosting build path */
     build: string;
+    /** The Hosting sites build paths by the target, set when the Hosting has
+     * multiple sites */
+    sites?: Record<string, string>;
   };
 }
 
@@ -78,6 +81,8 @@ export interface GetBuildPathsProps {
   cwd: string;
   /** The project paths */
   projectPaths: FiremynaProjectPaths;
+  /** The Hosting sites targets */
+  hostingTargets?: string[];
 }
 
 /**
@@ -87,11 +92,13 @@ export interface GetBuildPathsProps {
 export function getPaths({
   appEnv,
   projectPaths,
+  hostingTargets,
   ...props
 }: GetBuildPathsProps): FiremynaPaths {
   const cwd = relative(process.cwd(), props.cwd);
 
   const appEnvBuild = getAppEnvBuild(appEnv, projectPaths.build);
+  const hostingBuild = getHostingBuildPath(appEnvBuild);
 
   return {
     ...projectPaths,
@@ -102,7 +109,15 @@ export function getPaths({
       build: getFunctionsBuildPath(appEnvBuild),
     },
     hosting: {
-      build: getHostingBuildPath(appEnvBuild),
+      build: hostingBuild,
+      sites:
+        hostingTargets &&
+        Object.fromEntries(
+          hostingTargets.map((target) => [
+            target,
+            getHostingSiteBuildPath(hostingBuild, target),
+          ])
+        ),
     },
   };
 }
@@ -192,6 +207,48 @@ export function getHostingBuildPath(buildEnvPath: string): string {
   return join(buildEnvPath, "hosting");
 }
 
+/**
+ * Generates the Hosting site build path.
+ * @param hostingBuildPath - the hosting build path
+ * @param target - the site Hosting target
+ * @returns the Hosting site build path
+ */
+export function getHostingSiteBuildPath(
+  hostingBuildPath: string,
+  target: string
+): string {
+  return join(hostingBuildPath, target);
+}
+
+/**
+ * Generates the callables client path. Unless set in the config, the client is
+ * placed next to the functions directory.
+ * @param paths - the paths
+ * @param config - the Firemyna config
+ * @returns the callables client path
+ */
+export function getClientPath(
+  paths: FiremynaPaths,
+  config: FiremynaConfigResolved
+): string {
+  return (
+    (typeof config.client === "object" && config.client.path) ||
+    join(dirname(paths.functions.src), `callables.${config.format}`)
+  );
+}
+
+/**
+ * Generates the module import path (i.e. "../lib/schemas") from one file to
+ * another.
+ * @param fromPath - the absolute path to the importing file
+ * @param toPath - the absolute path to the imported module (as in the import)
+ * @returns the module import path
+ */
+export function getModuleImportPath(fromPath: string, toPath: string): string {
+  const path = relative(dirname(fromPath), toPath).split(sep).join("/");
+  return path.startsWith(".") ? path : `./${path}`;
+}
+
 /**
  * Creates the given path.
  * @param path - the path to ensure
@@ -1,10 +1,53 @@
 export interface FiremynaPkg {
+  name?: string;
   main?: string;
+  type?: "commonjs" | "module";
   engines?: {
     node?: string;
     npm?: string;
   };
   dependencies?: { [dependency: string]: string };
   devDependencies?: { [dependency: string]: string };
+  optionalDependencies?: { [dependency: string]: string };
   scripts?: Record<string, string>;
+  packageManager?: string;
+}
+
+/**
+ * Lists the package.json dependencies, dev and optional dependencies with
+ * their version ranges.
+ *
+ * @param pkg - the package.json
+ * @returns the dependencies names and ranges
+ */
+export function listPkgRanges(pkg: FiremynaPkg): Array<[string, string]> {
+  return Object.entries({
+    ...pkg.dependencies,
+    ...pkg.devDependencies,
+    ...pkg.optionalDependencies,
+  });
+}
+
+/**
+ * Removes the dependencies and dev dependencies from the package.json.
+ *
+ * @param pkg - the package.json
+ * @param names - the dependencies to remove
+ * @returns the package.json without the dependencies
+ */
+export function removePkgDependencies(
+  pkg: FiremynaPkg,
+  names: string[]
+): FiremynaPkg {
+  const omit = (deps: Record<string, string> | undefined) =>
+    deps &&
+    Object.fromEntries(
+      Object.entries(deps).filter(([name]) => !names.includes(name))
+    );
+
+  return {
+    ...pkg,
+    dependencies: omit(pkg.dependencies),
+    devDependencies: omit(pkg.devDependencies),
+  };
 }
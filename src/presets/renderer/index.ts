@@ -1,9 +1,19 @@
-export function remixRenderer() {
+import { FiremynaOutputFormat } from "../../config";
+
+export function remixRenderer(format: FiremynaOutputFormat = "cjs") {
   return `
 import express from "express";
 import remix from "@remix-run/express";
 import * as functions from "firebase-functions";
+${
+  // The Remix server build is CommonJS
+  format === "esm"
+    ? `import { createRequire } from "module";
 
+const require = createRequire(import.meta.url);
+`
+    : ""
+}
 const app = express();
 app.all("*", remix.createRequestHandler({ build: require("./_renderer") }));
 
@@ -11,13 +21,20 @@ export default functions.https.onRequest(app);
 `;
 }
 
-export function nextRenderer() {
+export function nextRenderer(format: FiremynaOutputFormat = "cjs") {
   return `
 import * as admin from "firebase-admin";
 import * as functions from "firebase-functions";
 import next from "next";
 import path from "path";
+${
+  format === "esm"
+    ? `import { fileURLToPath } from "url";
 
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+`
+    : ""
+}
 admin.initializeApp();
 
 const app = next({
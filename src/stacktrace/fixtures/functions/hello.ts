@@ -0,0 +1,4 @@
+export default function hello(name: string): string {
+  if (!name) throw new Error("The name is required");
+  return `Hello, ${name}!`;
+}
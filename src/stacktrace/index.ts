@@ -0,0 +1,95 @@
+/**
+ * @module stacktrace
+ *
+ * The Firemyna stack trace module. It maps the production stack traces to
+ * the sources using the build source maps.
+ */
+
+import { readFile } from "fs/promises";
+import { SourceMap, SourceMapPayload } from "module";
+import { dirname, relative, resolve } from "path";
+import { FiremynaBuildConfig } from "../build";
+
+/**
+ * Matches the stack trace frame location, i.e.
+ * `/workspace/functions/hello.cjs:1:2345`.
+ */
+const locationRegExp = /(?:file:\/\/)?([^\s()]+?\.(?:cjs|mjs|js)):(\d+):(\d+)/g;
+
+/**
+ * Maps the stack trace locations to the original sources using the source
+ * maps of the build. The locations that can't be mapped (i.e. Node.js
+ * internals or files without source maps) are left intact.
+ *
+ * @param buildConfig - the Firemyna build config
+ * @param trace - the stack trace to map
+ * @returns promise to the mapped stack trace
+ */
+export async function resolveStackTrace(
+  buildConfig: FiremynaBuildConfig,
+  trace: string
+): Promise<string> {
+  const buildPath = resolve(buildConfig.cwd, buildConfig.paths.functions.build);
+  const sourceMaps = new Map<string, Promise<SourceMap | undefined>>();
+
+  const loadSourceMap = (file: string) => {
+    let sourceMap = sourceMaps.get(file);
+    if (!sourceMap) {
+      sourceMap = readSourceMap(resolve(buildPath, `${file}.map`));
+      sourceMaps.set(file, sourceMap);
+    }
+    return sourceMap;
+  };
+
+  const locations = Array.from(trace.matchAll(locationRegExp));
+  const mapped = await Promise.all(
+    locations.map(async ([location, path, line, column]) => {
+      const file = buildFilePath(path!);
+      if (!file) return location;
+
+      const sourceMap = await loadSourceMap(file);
+      const entry = sourceMap?.findEntry(Number(line) - 1, Number(column) - 1);
+      if (!entry?.originalSource) return location;
+
+      const source = relative(
+        buildConfig.cwd,
+        resolve(dirname(resolve(buildPath, file)), entry.originalSource)
+      );
+      return `${source}:${entry.originalLine + 1}:${entry.originalColumn + 1}`;
+    })
+  );
+
+  let index = 0;
+  return trace.replace(locationRegExp, () => mapped[index++]!);
+}
+
+/**
+ * Extracts the build file path relative to the functions build directory
+ * from the deployed file path. The deployed functions are placed in
+ * the `functions` directory of the deployed source.
+ *
+ * @param path - the deployed file path
+ * @returns the build file path or undefined if the file is not in
+ * the deployed functions directory, i.e. a package file
+ */
+function buildFilePath(path: string): string | undefined {
+  const segments = path.split("/");
+  if (segments.includes("node_modules")) return;
+
+  const functionsIndex = segments.lastIndexOf("functions");
+  if (functionsIndex === -1) return;
+  return segments.slice(functionsIndex + 1).join("/");
+}
+
+/**
+ * Reads the source map file.
+ *
+ * @param path - the source map path
+ * @returns promise to the source map if the file exists
+ */
+async function readSourceMap(path: string): Promise<SourceMap | undefined> {
+  const payload: SourceMapPayload | undefined = await readFile(path, "utf8")
+    .then((contents) => JSON.parse(contents))
+    .catch(() => undefined);
+  return payload && new SourceMap(payload);
+}
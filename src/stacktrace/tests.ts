@@ -0,0 +1,57 @@
+import { resolve } from "path";
+import { resolveStackTrace } from ".";
+import { FiremynaBuildConfig } from "../build";
+import { describe, it, expect } from "vitest";
+
+describe("stacktrace", () => {
+  const cwd = resolve(__dirname, "fixtures");
+
+  const buildConfig: FiremynaBuildConfig = {
+    project: "production",
+    cwd,
+    appEnv: "production",
+    mode: "build",
+    paths: {
+      cwd,
+      appEnvBuild: "build",
+      functions: {
+        src: "functions",
+        build: "build/functions",
+      },
+      hosting: {
+        build: "build/hosting",
+      },
+    },
+    config: { node: "20", format: "ts" },
+    renderer: false,
+  };
+
+  describe("resolveStackTrace", () => {
+    it("maps the locations to the sources", async () => {
+      const trace = `Error: The name is required
+    at hello (/workspace/functions/hello.cjs:1:553)
+    at file:///workspace/functions/hello.cjs:1:553`;
+      expect(await resolveStackTrace(buildConfig, trace)).toBe(
+        `Error: The name is required
+    at hello (functions/hello.ts:2:20)
+    at functions/hello.ts:2:20`
+      );
+    });
+
+    it("leaves the unknown locations intact", async () => {
+      const trace = `Error: The name is required
+    at Object.cloudFunction (/workspace/node_modules/firebase-functions/lib/providers/https.js:50:16)
+    at /workspace/functions/missing.cjs:1:10
+    at process.processTicksAndRejections (node:internal/process/task_queues:95:5)`;
+      expect(await resolveStackTrace(buildConfig, trace)).toBe(trace);
+    });
+
+    it("doesn't map the packages locations to the functions", async () => {
+      // The fixtures have the https function source map
+      const trace = `Error: The name is required
+    at Object.onRequest (/workspace/node_modules/firebase-functions/lib/common/providers/https.js:1:553)
+    at /workspace/lib/https.js:1:553`;
+      expect(await resolveStackTrace(buildConfig, trace)).toBe(trace);
+    });
+  });
+});
@@ -1,14 +1,25 @@
 import type { RuntimeOptions } from "firebase-functions";
 import { format as formatSource } from "prettier";
-import { FiremynaConfigResolved, FiremynaFormat } from "../config";
+import {
+  FiremynaConfigResolved,
+  FiremynaFormat,
+  FiremynaFunctionsGen,
+} from "../config";
 import { FirebaseRegion } from "../firebase/exports";
 
 /**
- * The functions init data.
+ * The functions init data. The options are shared by both generations except
+ * the ones marked as 2nd gen only.
  */
 export interface FunctionsInitData extends RuntimeOptions {
+  /** The functions generation to generate code for; default - 1 */
+  gen?: FiremynaFunctionsGen;
   /** The Function region */
   region?: FirebaseRegion | FirebaseRegion[];
+  /** The maximum number of concurrent requests per instance (2nd gen only) */
+  concurrency?: number;
+  /** The number of CPUs to allocate (2nd gen only) */
+  cpu?: number | "gcf_gen1";
 }
 
 /**
@@ -62,6 +73,22 @@ export function httpFunctionTemplate({
 }`
   );
 
+  if (initData.gen === 2)
+    return formatSource(
+      `${imports.replace(
+        importFunctions(format),
+        importFunctionsV2("https", "onRequest")
+      )}
+
+${inits}
+
+export default onRequest(${functionsOptions(
+        initData
+      )}(request, response) => ${body});
+`,
+      { parser: "babel" }
+    );
+
   return formatSource(
     `${imports}
 
@@ -97,7 +124,12 @@ export function expressFunctionTemplate({
   if (cookie) middlewares.push(cookieMiddleware);
   if (cors) middlewares.push(corsMiddleware);
 
-  const imports = [importFunctions(format), 'import express from "express";']
+  const imports = [
+    initData.gen === 2
+      ? importFunctionsV2("https", "onRequest")
+      : importFunctions(format),
+    'import express from "express";',
+  ]
     .concat(middlewares.map((middleware) => middleware.import))
     .join("\n");
 
@@ -115,7 +147,11 @@ app.get("/", (request, response) => {
   response.send("Hi from ${name}!");
 });
 
-export default ${functionsInit(initData)}.https.onRequest(app);
+export default ${
+      initData.gen === 2
+        ? `onRequest(${functionsOptions(initData)}app)`
+        : `${functionsInit(initData)}.https.onRequest(app)`
+    };
 `,
     { parser: "babel" }
   );
@@ -136,6 +172,17 @@ export function callableFunctionTemplate({
   format,
   ...initData
 }: CallableFunctionTemplateProps): Promise<string> {
+  if (initData.gen === 2)
+    return formatSource(
+      `${importFunctionsV2("https", "onCall")}
+
+export default onCall(${functionsOptions(initData)}(request) => {
+  return "Hi from ${name}!";
+});
+`,
+      { parser: "babel" }
+    );
+
   return formatSource(
     `${importFunctions(format)}
 
@@ -169,6 +216,22 @@ export function scheduleFunctionTemplate({
   tz,
   ...initData
 }: ScheduleFunctionTemplateProps): Promise<string> {
+  if (initData.gen === 2)
+    return formatSource(
+      `${importFunctionsV2("scheduler", "onSchedule")}
+
+export default onSchedule(${triggerOptions(
+        "schedule",
+        schedule,
+        initData,
+        tz ? { timeZone: tz } : {}
+      )}, async (event) => {
+  console.log("Hi from ${name}!");
+});
+`,
+      { parser: "babel" }
+    );
+
   const tzCode = tz ? `.timeZone(${JSON.stringify(tz)})` : "";
 
   return formatSource(
@@ -213,6 +276,25 @@ export function rtdbFunctionTemplate({
   instance,
   ...initData
 }: RTDBFunctionTemplateProps): Promise<string> {
+  if (initData.gen === 2) {
+    const trigger = `onValue${dbEventV2(event)}`;
+
+    return formatSource(
+      `${importFunctionsV2("database", trigger)}
+
+export default ${trigger}(${triggerOptions(
+        "ref",
+        path,
+        initData,
+        instance ? { instance } : {}
+      )}, (event) => {
+  console.log("Hi from ${name}!");
+});
+`,
+      { parser: "babel" }
+    );
+  }
+
   const instanceCode = instance ? `.instance(${JSON.stringify(instance)})` : "";
 
   return formatSource(
@@ -250,6 +332,24 @@ export function firestoreFunctionTemplate({
   path,
   ...initData
 }: FirestoreFunctionTemplateProps): Promise<string> {
+  if (initData.gen === 2) {
+    const trigger = `onDocument${dbEventV2(event)}`;
+
+    return formatSource(
+      `${importFunctionsV2("firestore", trigger)}
+
+export default ${trigger}(${triggerOptions(
+        "document",
+        path,
+        initData
+      )}, (event) => {
+  console.log("Hi from ${name}!");
+});
+`,
+      { parser: "babel" }
+    );
+  }
+
   return formatSource(
     `${importFunctions(format)}
 
@@ -263,6 +363,275 @@ export default ${functionsInit(initData)}.firestore.document(${JSON.stringify(
   );
 }
 
+/**
+ * The Auth trigger event name.
+ */
+export type FirebaseAuthEvent =
+  | "create"
+  | "delete"
+  | "beforeCreate"
+  | "beforeSignIn";
+
+/**
+ * The {@link authFunctionTemplate} function props.
+ */
+export interface AuthFunctionTemplateProps extends BaseFunctionTemplateProps {
+  /** The Auth trigger event */
+  event: FirebaseAuthEvent;
+}
+
+/**
+ * Generates an Auth trigger function source code.
+ * @returns Auth trigger function source code
+ */
+export function authFunctionTemplate({
+  name,
+  format,
+  event,
+  ...initData
+}: AuthFunctionTemplateProps): Promise<string> {
+  if (initData.gen === 2) {
+    const trigger = authEventV2(event);
+
+    return formatSource(
+      `${importFunctionsV2("identity", trigger)}
+
+export default ${trigger}(${functionsOptions(initData)}(event) => {
+  console.log("Hi from ${name}!");
+});
+`,
+      { parser: "babel" }
+    );
+  }
+
+  return formatSource(
+    `${importFunctions(format)}
+
+export default ${functionsInit(initData)}.auth.user().${authEvent(
+      event
+    )}((user, context) => {
+  console.log("Hi from ${name}!");
+});
+`,
+    { parser: "babel" }
+  );
+}
+
+/**
+ * The Storage trigger event name.
+ */
+export type FirebaseStorageEvent =
+  | "finalize"
+  | "delete"
+  | "archive"
+  | "metadataUpdate";
+
+/**
+ * The {@link storageFunctionTemplate} function props.
+ */
+export interface StorageFunctionTemplateProps
+  extends BaseFunctionTemplateProps {
+  /** The Storage trigger event */
+  event: FirebaseStorageEvent;
+  /** The bucket name, the default bucket is used if not specified */
+  bucket?: string;
+}
+
+/**
+ * Generates a Storage trigger function source code.
+ * @returns Storage trigger function source code
+ */
+export function storageFunctionTemplate({
+  name,
+  format,
+  event,
+  bucket,
+  ...initData
+}: StorageFunctionTemplateProps): Promise<string> {
+  if (initData.gen === 2) {
+    const trigger = `onObject${storageEventV2(event)}`;
+    const options = bucket
+      ? `${triggerOptions("bucket", bucket, initData)}, `
+      : functionsOptions(initData);
+
+    return formatSource(
+      `${importFunctionsV2("storage", trigger)}
+
+export default ${trigger}(${options}(event) => {
+  console.log("Hi from ${name}!");
+});
+`,
+      { parser: "babel" }
+    );
+  }
+
+  const bucketCode = bucket ? `.bucket(${JSON.stringify(bucket)})` : "";
+  const trigger = `on${event[0]!.toUpperCase()}${event.slice(1)}`;
+
+  return formatSource(
+    `${importFunctions(format)}
+
+export default ${functionsInit(
+      initData
+    )}.storage${bucketCode}.object().${trigger}((object, context) => {
+  console.log("Hi from ${name}!");
+});
+`,
+    { parser: "babel" }
+  );
+}
+
+/**
+ * The {@link pubsubFunctionTemplate} function props.
+ */
+export interface PubSubFunctionTemplateProps extends BaseFunctionTemplateProps {
+  /** The Pub/Sub topic name */
+  topic: string;
+}
+
+/**
+ * Generates a Pub/Sub topic trigger function source code.
+ * @returns Pub/Sub topic trigger function source code
+ */
+export function pubsubFunctionTemplate({
+  name,
+  format,
+  topic,
+  ...initData
+}: PubSubFunctionTemplateProps): Promise<string> {
+  if (initData.gen === 2)
+    return formatSource(
+      `${importFunctionsV2("pubsub", "onMessagePublished")}
+
+export default onMessagePublished(${triggerOptions(
+        "topic",
+        topic,
+        initData
+      )}, (event) => {
+  console.log("Hi from ${name}!");
+});
+`,
+      { parser: "babel" }
+    );
+
+  return formatSource(
+    `${importFunctions(format)}
+
+export default ${functionsInit(initData)}.pubsub.topic(${JSON.stringify(
+      topic
+    )}).onPublish((message, context) => {
+  console.log("Hi from ${name}!");
+});
+`,
+    { parser: "babel" }
+  );
+}
+
+/**
+ * The {@link taskFunctionTemplate} function props.
+ */
+export interface TaskFunctionTemplateProps extends BaseFunctionTemplateProps {
+  /** The maximum number of attempts for a task */
+  maxAttempts?: number;
+  /** The maximum number of tasks dispatched at the same time */
+  maxConcurrentDispatches?: number;
+}
+
+/**
+ * Generates a Cloud Tasks queue function source code.
+ * @returns Cloud Tasks queue function source code
+ */
+export function taskFunctionTemplate({
+  name,
+  format,
+  maxAttempts,
+  maxConcurrentDispatches,
+  ...initData
+}: TaskFunctionTemplateProps): Promise<string> {
+  const queueOptions = {
+    ...(maxAttempts !== undefined && { retryConfig: { maxAttempts } }),
+    ...(maxConcurrentDispatches !== undefined && {
+      rateLimits: { maxConcurrentDispatches },
+    }),
+  };
+
+  if (initData.gen === 2) {
+    const options = { ...queueOptions, ...functionsV2Options(initData) };
+    const optionsCode = Object.keys(options).length
+      ? `${JSON.stringify(options)}, `
+      : "";
+
+    return formatSource(
+      `${importFunctionsV2("tasks", "onTaskDispatched")}
+
+export default onTaskDispatched(${optionsCode}async (request) => {
+  console.log("Hi from ${name}!");
+});
+`,
+      { parser: "babel" }
+    );
+  }
+
+  const queueJSON = JSON.stringify(queueOptions);
+
+  return formatSource(
+    `${importFunctions(format)}
+
+export default ${functionsInit(initData)}.tasks.taskQueue(${
+      queueJSON !== "{}" ? queueJSON : ""
+    }).onDispatch(async (data) => {
+  console.log("Hi from ${name}!");
+});
+`,
+    { parser: "babel" }
+  );
+}
+
+/**
+ * The {@link eventarcFunctionTemplate} function props.
+ */
+export interface EventarcFunctionTemplateProps
+  extends BaseFunctionTemplateProps {
+  /** The custom event type (i.e. "com.example.v1.event") */
+  eventType: string;
+  /** The Eventarc channel, the default channel is used if not specified */
+  channel?: string;
+}
+
+/**
+ * Generates an Eventarc custom event trigger function source code. Eventarc
+ * triggers are only available in 2nd gen, so it's used unless 1st gen is
+ * explicitly requested.
+ * @returns Eventarc custom event trigger function source code
+ */
+export function eventarcFunctionTemplate({
+  name,
+  format,
+  eventType,
+  channel,
+  ...initData
+}: EventarcFunctionTemplateProps): Promise<string> {
+  if (initData.gen === 1)
+    throw new Error(
+      "Eventarc triggers are only supported by 2nd gen functions"
+    );
+
+  return formatSource(
+    `${importFunctionsV2("eventarc", "onCustomEventPublished")}
+
+export default onCustomEventPublished(${triggerOptions(
+      "eventType",
+      eventType,
+      initData,
+      channel ? { channel } : {}
+    )}, (event) => {
+  console.log("Hi from ${name}!");
+});
+`,
+    { parser: "babel" }
+  );
+}
+
 /**
  * HTTP function middleware defition.
  */
@@ -302,17 +671,12 @@ var cookieMiddleware: FunctionMiddleware = {
 export function firemynaConfigTemplate(
   config: FiremynaConfigResolved
 ): Promise<string> {
-  const prefix =
-    config.format === "ts"
-      ? `import type { FiremynaConfig } from "firemyna";
-  
-export const config : FiremynaConfig =`
-      : `/** @type {import("firemyna").FiremynaConfig } */
-export const config =`;
+  return formatSource(
+    `import { defineConfig } from "firemyna";
 
-  return formatSource(`${prefix} ${JSON.stringify(config, null, 2)};`, {
-    parser: "babel",
-  });
+export default defineConfig(${JSON.stringify(config, null, 2)});`,
+    { parser: "babel" }
+  );
 }
 
 /**
@@ -330,11 +694,32 @@ function importFunctions(format: FiremynaFormat): string {
   }
 }
 
+/**
+ * Generates import 2nd gen Functions trigger line source code.
+ * @param provider - the Functions v2 provider module
+ * @param trigger - the trigger function name
+ * @returns import trigger line source code
+ */
+function importFunctionsV2(provider: string, trigger: string): string {
+  return `import { ${trigger} } from "firebase-functions/v2/${provider}";`;
+}
+
 /**
  * Generates Functions init with the region and runtime settings.
  * @returns the Functions init code
  */
-function functionsInit({ region, ...runtime }: FunctionsInitData) {
+function functionsInit({
+  gen,
+  region,
+  concurrency,
+  cpu,
+  ...runtime
+}: FunctionsInitData) {
+  if (concurrency !== undefined || cpu !== undefined)
+    throw new Error(
+      "The concurrency and cpu options are only supported by 2nd gen functions"
+    );
+
   const regionCode = region
     ? `.region(${
         Array.isArray(region)
@@ -369,3 +754,145 @@ function dbEvent(event: FirebaseDBEvent): string {
       return `.onWrite((change, context) =>`;
   }
 }
+
+/**
+ * Generates the 2nd gen trigger event name suffix.
+ *
+ * @param event - the Firebase DB trigger event
+ * @returns the trigger name suffix (i.e. Created)
+ */
+function dbEventV2(event: FirebaseDBEvent): string {
+  switch (event) {
+    case "create":
+      return "Created";
+
+    case "update":
+      return "Updated";
+
+    case "delete":
+      return "Deleted";
+
+    case "write":
+      return "Written";
+  }
+}
+
+/**
+ * Generates the 2nd gen function options argument code. It's followed by
+ * a comma so it can be placed before the handler.
+ *
+ * @returns the options argument code or empty string if there are no options
+ */
+function functionsOptions(initData: FunctionsInitData): string {
+  const optionsJSON = JSON.stringify(functionsV2Options(initData));
+  return optionsJSON !== "{}" ? `${optionsJSON}, ` : "";
+}
+
+/**
+ * Generates the 2nd gen trigger options argument code. If there are no
+ * options, the trigger value (i.e. the document path) is used as is.
+ *
+ * @param key - the trigger value option key (i.e. document)
+ * @param value - the trigger value
+ * @param initData - the functions init data
+ * @param triggerOptions - the trigger-specific options
+ * @returns the trigger options argument code
+ */
+function triggerOptions(
+  key: string,
+  value: string,
+  initData: FunctionsInitData,
+  triggerOptions: Record<string, string> = {}
+): string {
+  const options = { ...triggerOptions, ...functionsV2Options(initData) };
+  return Object.keys(options).length
+    ? JSON.stringify({ [key]: value, ...options })
+    : JSON.stringify(value);
+}
+
+/**
+ * Converts the functions init data to the 2nd gen options.
+ *
+ * @returns the 2nd gen options
+ */
+function functionsV2Options({
+  gen,
+  memory,
+  ...options
+}: FunctionsInitData): Record<string, unknown> {
+  // 2nd gen uses binary units, i.e. 1GiB instead of 1GB
+  const v2Options: Record<string, unknown> = Object.assign(
+    options,
+    memory && { memory: memory.replace(/B$/, "iB") }
+  );
+  Object.keys(v2Options).forEach(
+    (key) => v2Options[key] === undefined && delete v2Options[key]
+  );
+  return v2Options;
+}
+
+/**
+ * Generates the Auth trigger method name.
+ *
+ * @param event - the Auth trigger event
+ * @returns the trigger method name
+ */
+function authEvent(event: FirebaseAuthEvent): string {
+  switch (event) {
+    case "create":
+      return "onCreate";
+
+    case "delete":
+      return "onDelete";
+
+    case "beforeCreate":
+      return "beforeCreate";
+
+    case "beforeSignIn":
+      return "beforeSignIn";
+  }
+}
+
+/**
+ * Generates the 2nd gen Auth blocking trigger name.
+ *
+ * @param event - the Auth trigger event
+ * @returns the trigger name
+ */
+function authEventV2(event: FirebaseAuthEvent): string {
+  switch (event) {
+    case "beforeCreate":
+      return "beforeUserCreated";
+
+    case "beforeSignIn":
+      return "beforeUserSignedIn";
+
+    case "create":
+    case "delete":
+      throw new Error(
+        `The Auth ${event} trigger is only supported by 1st gen functions`
+      );
+  }
+}
+
+/**
+ * Generates the 2nd gen Storage trigger name suffix.
+ *
+ * @param event - the Storage trigger event
+ * @returns the trigger name suffix (i.e. Finalized)
+ */
+function storageEventV2(event: FirebaseStorageEvent): string {
+  switch (event) {
+    case "finalize":
+      return "Finalized";
+
+    case "delete":
+      return "Deleted";
+
+    case "archive":
+      return "Archived";
+
+    case "metadataUpdate":
+      return "MetadataUpdated";
+  }
+}
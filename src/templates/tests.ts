@@ -0,0 +1,174 @@
+import {
+  authFunctionTemplate,
+  callableFunctionTemplate,
+  eventarcFunctionTemplate,
+  firestoreFunctionTemplate,
+  httpFunctionTemplate,
+  scheduleFunctionTemplate,
+  storageFunctionTemplate,
+  taskFunctionTemplate,
+} from ".";
+import { describe, it, expect } from "vitest";
+
+describe("templates", () => {
+  describe("2nd gen", () => {
+    it("generates the v2 trigger with the options", async () => {
+      const source = await httpFunctionTemplate({
+        name: "hello",
+        format: "ts",
+        gen: 2,
+        region: "europe-west1",
+        memory: "1GB",
+        concurrency: 80,
+        minInstances: undefined,
+      });
+
+      expect(source).toContain(
+        'import { onRequest } from "firebase-functions/v2/https";'
+      );
+      expect(source).toContain(
+        'onRequest(\n  { region: "europe-west1", concurrency: 80, memory: "1GiB" },'
+      );
+    });
+
+    it("omits the options when there are none", async () => {
+      const source = await callableFunctionTemplate({
+        name: "hello",
+        format: "ts",
+        gen: 2,
+        cpu: undefined,
+      });
+
+      expect(source).toContain("export default onCall((request) => {");
+    });
+
+    it("passes the trigger value as is when there are no options", async () => {
+      const source = await firestoreFunctionTemplate({
+        name: "hello",
+        format: "ts",
+        gen: 2,
+        event: "create",
+        path: "users/{userId}",
+      });
+
+      expect(source).toContain(
+        'import { onDocumentCreated } from "firebase-functions/v2/firestore";'
+      );
+      expect(source).toContain(
+        'export default onDocumentCreated("users/{userId}", (event) => {'
+      );
+    });
+
+    it("merges the trigger value with the options", async () => {
+      const source = await scheduleFunctionTemplate({
+        name: "hello",
+        format: "ts",
+        gen: 2,
+        schedule: "every 5 minutes",
+        tz: "UTC",
+        secrets: ["API_KEY"],
+      });
+
+      expect(source).toContain(
+        '{ schedule: "every 5 minutes", timeZone: "UTC", secrets: ["API_KEY"] }'
+      );
+    });
+  });
+
+  describe("1st gen", () => {
+    it("throws when 2nd gen only options are used", async () => {
+      await expect(async () =>
+        callableFunctionTemplate({ name: "hello", format: "ts", cpu: 1 })
+      ).rejects.toThrow(
+        "The concurrency and cpu options are only supported by 2nd gen functions"
+      );
+    });
+  });
+
+  describe("authFunctionTemplate", () => {
+    it("generates the blocking trigger", async () => {
+      expect(
+        await authFunctionTemplate({
+          name: "hello",
+          format: "ts",
+          event: "beforeCreate",
+        })
+      ).toContain("functions.auth.user().beforeCreate((user, context) => {");
+
+      expect(
+        await authFunctionTemplate({
+          name: "hello",
+          format: "ts",
+          gen: 2,
+          event: "beforeCreate",
+        })
+      ).toContain("export default beforeUserCreated((event) => {");
+    });
+
+    it("throws for 2nd gen non-blocking triggers", async () => {
+      await expect(async () =>
+        authFunctionTemplate({
+          name: "hello",
+          format: "ts",
+          gen: 2,
+          event: "create",
+        })
+      ).rejects.toThrow(
+        "The Auth create trigger is only supported by 1st gen functions"
+      );
+    });
+  });
+
+  describe("storageFunctionTemplate", () => {
+    it("uses the bucket", async () => {
+      expect(
+        await storageFunctionTemplate({
+          name: "hello",
+          format: "ts",
+          event: "finalize",
+          bucket: "images",
+        })
+      ).toContain(
+        'functions.storage\n  .bucket("images")\n  .object()\n  .onFinalize('
+      );
+
+      expect(
+        await storageFunctionTemplate({
+          name: "hello",
+          format: "ts",
+          gen: 2,
+          event: "archive",
+          bucket: "images",
+        })
+      ).toContain('export default onObjectArchived("images", (event) => {');
+    });
+  });
+
+  describe("taskFunctionTemplate", () => {
+    it("generates the queue options", async () => {
+      expect(
+        await taskFunctionTemplate({
+          name: "hello",
+          format: "ts",
+          maxAttempts: 5,
+          maxConcurrentDispatches: 6,
+        })
+      ).toContain(
+        "taskQueue({\n    retryConfig: { maxAttempts: 5 },\n    rateLimits: { maxConcurrentDispatches: 6 },"
+      );
+    });
+  });
+
+  describe("eventarcFunctionTemplate", () => {
+    it("throws for 1st gen", async () => {
+      await expect(async () =>
+        eventarcFunctionTemplate({
+          name: "hello",
+          format: "ts",
+          gen: 1,
+          eventType: "com.example.v1.event",
+        })
+      ).rejects.toThrow("Eventarc triggers are only supported by 2nd gen");
+    });
+  });
+});
@@ -101,7 +101,12 @@ export function watchDeps(onRebuild: (entry: string) => void) {
     delete entriesToDeps[entry];
   }
 
-  return { onBuild, onStop };
+  function close() {
+    Object.values(debounceTimers).forEach(clearTimeout);
+    return watch.close();
+  }
+
+  return { onBuild, onStop, close };
 }
 
 interface DebounceTimers {
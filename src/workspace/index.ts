@@ -0,0 +1,211 @@
+import glob from "glob";
+import { readFile } from "fs/promises";
+import { dirname, resolve } from "path";
+import { promisify } from "util";
+import { FiremynaPkg } from "../pkg";
+
+const globAsync = promisify(glob);
+
+/**
+ * The npm, yarn or pnpm workspace the project belongs to.
+ */
+export interface FiremynaWorkspace {
+  /** The workspace root directory */
+  root: string;
+  /** The workspace packages */
+  packages: FiremynaWorkspacePackage[];
+}
+
+/**
+ * The workspace package.
+ */
+export interface FiremynaWorkspacePackage {
+  /** The package name */
+  name: string;
+  /** The package directory */
+  path: string;
+  /** The parsed package.json */
+  pkg: FiremynaPkg;
+}
+
+/**
+ * Finds the workspace the directory belongs to, looking for
+ * `pnpm-workspace.yaml` or package.json with `workspaces` in the directory
+ * and its parents.
+ *
+ * @param cwd - the directory to start from
+ * @returns promise to the workspace or undefined if not found
+ */
+export async function findWorkspace(
+  cwd: string
+): Promise<FiremynaWorkspace | undefined> {
+  let dir = resolve(cwd);
+
+  while (true) {
+    const patterns = await readWorkspacePatterns(dir);
+    if (patterns)
+      return { root: dir, packages: await listPackages(dir, patterns) };
+
+    const parent = dirname(dir);
+    if (parent === dir) return;
+    dir = parent;
+  }
+}
+
+/**
+ * Replaces the workspace packages in the package.json dependencies with their
+ * third-party dependencies, collected transitively. The workspace packages
+ * are bundled, so only their dependencies have to be installed. The project
+ * dependencies versions take precedence. The workspace dev dependencies are
+ * removed.
+ *
+ * @param pkg - the package.json to process
+ * @param workspace - the workspace
+ * @returns the dependencies without the workspace packages
+ */
+export function resolveWorkspaceDependencies(
+  pkg: FiremynaPkg,
+  workspace: FiremynaWorkspace
+): Pick<FiremynaPkg, "dependencies" | "devDependencies"> {
+  const dependencies: Record<string, string> = {};
+  const visited = new Set<string>();
+
+  function add(deps: Record<string, string> = {}) {
+    const local: FiremynaWorkspacePackage[] = [];
+
+    Object.entries(deps).forEach(([name, version]) => {
+      if (!isWorkspaceDependency(workspace, name, version)) {
+        if (!(name in dependencies)) dependencies[name] = version;
+        return;
+      }
+
+      const workspacePkg = workspace.packages.find((p) => p.name === name);
+      if (workspacePkg && !visited.has(name)) {
+        visited.add(name);
+        local.push(workspacePkg);
+      }
+    });
+
+    local.forEach((workspacePkg) => add(workspacePkg.pkg.dependencies));
+  }
+
+  add(pkg.dependencies);
+
+  return {
+    dependencies,
+    devDependencies:
+      pkg.devDependencies &&
+      Object.fromEntries(
+        Object.entries(pkg.devDependencies).filter(
+          ([name, version]) => !isWorkspaceDependency(workspace, name, version)
+        )
+      ),
+  };
+}
+
+/**
+ * Checks if the dependency refers to a workspace package.
+ *
+ * @param workspace - the workspace
+ * @param name - the dependency name
+ * @param version - the dependency version
+ * @returns true if it's a workspace package
+ */
+function isWorkspaceDependency(
+  workspace: FiremynaWorkspace,
+  name: string,
+  version: string
+): boolean {
+  return (
+    version.startsWith("workspace:") ||
+    workspace.packages.some((p) => p.name === name)
+  );
+}
+
+/**
+ * Parses the package patterns from `pnpm-workspace.yaml`. Only the
+ * `packages` list is supported.
+ *
+ * @param yaml - the pnpm-workspace.yaml contents
+ * @returns the package patterns
+ */
+export function parsePnpmWorkspace(yaml: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+
+  yaml.split("\n").forEach((line) => {
+    const content = line.replace(/#.*$/, "").trimEnd();
+    if (!content) return;
+
+    if (!/^\s/.test(content)) {
+      inPackages = /^packages\s*:/.test(content);
+      return;
+    }
+
+    const item = inPackages && content.match(/^\s*-\s*(.+)$/);
+    if (item) patterns.push(item[1]!.trim().replace(/^(["'])(.*)\1$/, "$2"));
+  });
+
+  return patterns;
+}
+
+/**
+ * Reads the workspace package patterns from the directory.
+ *
+ * @param dir - the directory to check
+ * @returns promise to the patterns or undefined if it's not a workspace root
+ */
+async function readWorkspacePatterns(
+  dir: string
+): Promise<string[] | undefined> {
+  const yaml = await readFile(
+    resolve(dir, "pnpm-workspace.yaml"),
+    "utf8"
+  ).catch(() => undefined);
+  if (yaml !== undefined) return parsePnpmWorkspace(yaml);
+
+  const pkg = await readFile(resolve(dir, "package.json"), "utf8")
+    .then((json) => JSON.parse(json))
+    .catch(() => undefined);
+  const workspaces = pkg?.workspaces;
+  if (Array.isArray(workspaces)) return workspaces;
+  if (Array.isArray(workspaces?.packages)) return workspaces.packages;
+}
+
+/**
+ * Lists the workspace packages matching the patterns.
+ *
+ * @param root - the workspace root
+ * @param patterns - the package patterns, `!` prefixed ones exclude
+ * @returns promise to the workspace packages
+ */
+async function listPackages(
+  root: string,
+  patterns: string[]
+): Promise<FiremynaWorkspacePackage[]> {
+  const ignore = patterns
+    .filter((pattern) => pattern.startsWith("!"))
+    .map((pattern) => `${pattern.slice(1)}/package.json`)
+    .concat("**/node_modules/**");
+
+  const files = await Promise.all(
+    patterns
+      .filter((pattern) => !pattern.startsWith("!"))
+      .map((pattern) =>
+        globAsync(`${pattern}/package.json`, { cwd: root, ignore })
+      )
+  );
+
+  const packages = await Promise.all(
+    Array.from(new Set(files.flat())).map(async (file) => {
+      const pkg: FiremynaPkg = JSON.parse(
+        await readFile(resolve(root, file), "utf8")
+      );
+      return (
+        pkg.name && { name: pkg.name, path: resolve(root, dirname(file)), pkg }
+      );
+    })
+  );
+
+  return packages.filter((pkg): pkg is FiremynaWorkspacePackage => !!pkg);
+}
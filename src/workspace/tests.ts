@@ -0,0 +1,92 @@
+import { resolve } from "path";
+import {
+  findWorkspace,
+  parsePnpmWorkspace,
+  resolveWorkspaceDependencies,
+} from ".";
+import { describe, it, expect } from "vitest";
+
+describe("workspace", () => {
+  const fixtures = resolve(__dirname, "fixtures");
+
+  describe("findWorkspace", () => {
+    it("finds the npm workspace in the parent directories", async () => {
+      const workspace = await findWorkspace(
+        resolve(fixtures, "npm/apps/functions")
+      );
+
+      expect(workspace?.root).toBe(resolve(fixtures, "npm"));
+      expect(workspace?.packages.map((pkg) => pkg.name).sort()).toEqual([
+        "@acme/functions",
+        "@acme/shared",
+        "@acme/utils",
+      ]);
+      expect(
+        workspace?.packages.find((pkg) => pkg.name === "@acme/shared")?.path
+      ).toBe(resolve(fixtures, "npm/packages/shared"));
+    });
+
+    it("finds the pnpm workspace", async () => {
+      const workspace = await findWorkspace(
+        resolve(fixtures, "pnpm/apps/functions")
+      );
+
+      expect(workspace?.root).toBe(resolve(fixtures, "pnpm"));
+      expect(workspace?.packages.map((pkg) => pkg.name).sort()).toEqual([
+        "@acme/functions",
+        "@acme/shared",
+      ]);
+    });
+  });
+
+  describe("parsePnpmWorkspace", () => {
+    it("parses the packages patterns", () => {
+      expect(
+        parsePnpmWorkspace(`# Comment
+packages:
+  - "packages/*"
+  - 'apps/*' # The apps
+  - docs
+catalog:
+  - ignored
+`)
+      ).toEqual(["packages/*", "apps/*", "docs"]);
+    });
+  });
+
+  describe("resolveWorkspaceDependencies", () => {
+    it("replaces the workspace packages with their dependencies", async () => {
+      const workspace = await findWorkspace(resolve(fixtures, "npm"));
+      const pkg = workspace!.packages.find(
+        (pkg) => pkg.name === "@acme/functions"
+      )!.pkg;
+
+      expect(resolveWorkspaceDependencies(pkg, workspace!)).toEqual({
+        dependencies: {
+          "firebase-functions": "^4.4.0",
+          zod: "^3.22.0",
+          "date-fns": "^2.30.0",
+        },
+        devDependencies: {
+          typescript: "^5.1.6",
+        },
+      });
+    });
+
+    it("removes the workspace protocol dependencies", async () => {
+      const workspace = await findWorkspace(resolve(fixtures, "pnpm"));
+
+      expect(
+        resolveWorkspaceDependencies(
+          {
+            dependencies: { "@acme/other": "workspace:^1.0.0", zod: "^3.0.0" },
+          },
+          workspace!
+        )
+      ).toEqual({
+        dependencies: { zod: "^3.0.0" },
+        devDependencies: undefined,
+      });
+    });
+  });
+});